@@ -1,58 +1,302 @@
 
-import React, { useState, useCallback } from 'react';
-import { GraduationCap, BookOpen, ShieldCheck, Sparkles, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { GraduationCap, BookOpen, ShieldCheck, Sparkles, RefreshCw, Loader2, Users, FolderOpen } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import AssignmentProcessor from './components/AssignmentProcessor';
 import SolutionDisplay from './components/SolutionDisplay';
-import { geminiService } from './services/gemini';
-import { ProcessingStep, FileData, AssignmentResult } from './types';
+import AssignmentLibrary from './components/AssignmentLibrary';
+import DailyReview from './components/DailyReview';
+import GradingSetup, { GradingRequest } from './components/GradingSetup';
+import GradingReportView from './components/GradingReportView';
+import SharedAssignmentView from './components/SharedAssignmentView';
+import { processAssignment, insertSolved } from './services/pipeline';
+import { gradeSubmission } from './services/grading';
+import { libraryService, createId } from './services/library';
+import { markdownToText } from './services/markdown';
+import { inviteLink, relayUrl } from './services/collab/session';
+import { BUNDLE_EXTENSION, BundleError, readBundleFile, readShareLink } from './services/share';
+import { useCollaboration } from './hooks/useCollaboration';
+import { ProcessingStep, FileData, AssignmentResult, LibraryEntry, QuestionProgress, GradingReport } from './types';
 
 const App: React.FC = () => {
   const [step, setStep] = useState<ProcessingStep>(ProcessingStep.IDLE);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<AssignmentResult | null>(null);
+  const [assignmentId, setAssignmentId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<QuestionProgress[]>([]);
+  // Source material of the open assignment, needed to re-solve failed questions
+  const [files, setFiles] = useState<FileData[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const [verifyAnswers, setVerifyAnswers] = useState(false);
+  // Solving produces an assignment document; grading produces a feedback report on a student's submission
+  const [mode, setMode] = useState<'solve' | 'grade'>('solve');
+  const [report, setReport] = useState<GradingReport | null>(null);
+  const collab = useCollaboration(result, setResult);
+  // Opened from an invite link and still waiting for the shared document to arrive
+  const [joining, setJoining] = useState(false);
+  // Read-only assignment opened from a share link or .aceassign file
+  const [shared, setShared] = useState<AssignmentResult | null>(null);
+
+  // Invite links (?room=<id>) open the shared document; rooms joined before are already in the library
+  useEffect(() => {
+    const room = new URLSearchParams(window.location.search).get('room');
+    if (!room) return;
+    libraryService.get(room)
+      .catch(e => {
+        console.error("Failed to look up shared assignment", e);
+        return undefined;
+      })
+      .then(entry => {
+        if (entry) {
+          openAssignment(entry);
+        } else {
+          setAssignmentId(room);
+          setJoining(true);
+        }
+        collab.start(room);
+      });
+  }, []);
+
+  // Share links carry the whole assignment in the fragment (#bundle=...)
+  useEffect(() => {
+    const openLink = () => {
+      const pending = readShareLink(window.location.hash);
+      if (!pending) return;
+      pending.then(openShared).catch(err => {
+        console.error("Failed to open share link", err);
+        window.alert(err instanceof BundleError ? err.message : "Could not open the shared assignment. Please try again.");
+        window.history.replaceState(null, '', window.location.pathname);
+      });
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, []);
+
+  // Keep the address bar on the invite link while sharing so a reload rejoins the room
+  const linkedRoomRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (collab.room === linkedRoomRef.current) return;
+    linkedRoomRef.current = collab.room;
+    window.history.replaceState(null, '', collab.room ? inviteLink(collab.room) : window.location.pathname);
+  }, [collab.room]);
+
+  useEffect(() => {
+    if (!joining || !result || !assignmentId) return;
+    setJoining(false);
+    libraryService.create(result, [], assignmentId).catch(e => console.error("Failed to save shared assignment", e));
+    setStep(ProcessingStep.COMPLETED);
+  }, [joining, result, assignmentId]);
+
+  // Autosave edits to the library, debounced so typing doesn't write on every keystroke
+  useEffect(() => {
+    if (!result || !assignmentId) return;
+    const timer = setTimeout(() => {
+      libraryService.saveResult(assignmentId, result).catch(e => console.error("Failed to save assignment", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [result, assignmentId]);
+
+  const handleFilesSelect = async (selected: FileData[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let outline: AssignmentResult | null = null;
+    const finished = new Set<string>();
 
-  const handleFileSelect = async (fileData: FileData) => {
     try {
       setStep(ProcessingStep.EXTRACTING);
       setError(null);
+      collab.stop();
       setResult(null);
+      setAssignmentId(null);
+      setProgress([]);
+      setFiles(selected);
 
-      // Process with Gemini
-      const assignmentResult = await geminiService.processAssignment({
-        base64: fileData.base64,
-        mimeType: fileData.type
-      });
-
-      // Simulation of classification/solving phases for visual feedback
-      setStep(ProcessingStep.CLASSIFYING);
-      await new Promise(r => setTimeout(r, 1000));
-      
-      setStep(ProcessingStep.SOLVING);
-      
-      // Handle code execution if needed
-      const finalQuestions = await Promise.all(
-        assignmentResult.questions.map(async (q) => {
-          if (q.code && (q.requires_execution || assignmentResult.type === 'coding')) {
-            const output = await geminiService.executeCode(q.code, q.language || 'python');
-            return { ...q, execution_output: output };
+      for await (const event of processAssignment(selected, { verify: verifyAnswers, signal: controller.signal })) {
+        switch (event.type) {
+          case 'outline': {
+            outline = event.outline;
+            // Questions are added to the document one by one as they are solved
+            const initial = { ...outline, questions: [] };
+            let id: string;
+            try {
+              id = (await libraryService.create(initial, selected)).id;
+            } catch (e) {
+              console.error("Failed to save assignment to library", e);
+              id = createId();
+            }
+            controller.signal.throwIfAborted();
+            setProgress(outline.questions.map(q => ({ id: q.id, label: markdownToText(q.question_text), status: 'pending' })));
+            setAssignmentId(id);
+            setResult(initial);
+            setStep(ProcessingStep.SOLVING);
+            break;
           }
-          return q;
-        })
-      );
+          case 'status':
+            setProgress(prev => prev.map(p => p.id === event.questionId ? { ...p, status: event.status } : p));
+            break;
+          // Streamed results bypass the edit history; undo only reverts the fields an entry changed, so they stay
+          case 'question': {
+            const current = outline!;
+            finished.add(event.question.id);
+            setResult(prev => prev && insertSolved(prev, current, event.question));
+            break;
+          }
+          case 'verifying':
+            setStep(ProcessingStep.VERIFYING);
+            break;
+          case 'verification':
+            setResult(prev => prev && {
+              ...prev,
+              questions: prev.questions.map(q => q.id === event.questionId ? { ...q, verification: event.verification } : q)
+            });
+            break;
+        }
+      }
 
-      setResult({ ...assignmentResult, questions: finalQuestions });
       setStep(ProcessingStep.COMPLETED);
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Navigating away aborts too; only an explicit cancel keeps the partial document
+        if (abortRef.current !== controller) return;
+        if (!outline) {
+          reset();
+          return;
+        }
+        // Keep what was solved; the rest stays in the document as failed so it can be retried
+        const current = outline;
+        const remaining = current.questions
+          .filter(q => !finished.has(q.id))
+          .map(q => ({ ...q, error: 'Cancelled before it was solved.' }));
+        setResult(prev => prev && remaining.reduce((acc, q) => insertSolved(acc, current, q), prev));
+        setProgress(prev => prev.map(p => finished.has(p.id) ? p : { ...p, status: 'failed' }));
+        setStep(ProcessingStep.COMPLETED);
+        return;
+      }
       console.error(err);
       setError(err.message || "An unexpected error occurred during processing.");
       setStep(ProcessingStep.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const handleGradingStart = async ({ paper, submission, studentName, rubric }: GradingRequest) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let outline: AssignmentResult | null = null;
+    const graded = new Set<string>();
+
+    try {
+      setStep(ProcessingStep.EXTRACTING);
+      setError(null);
+      setReport(null);
+      setProgress([]);
+
+      for await (const event of gradeSubmission(paper, submission, { rubric: rubric || undefined, signal: controller.signal })) {
+        switch (event.type) {
+          case 'outline':
+            outline = event.outline;
+            setReport({
+              title: outline.title,
+              type: outline.type,
+              studentName: studentName || undefined,
+              createdAt: Date.now(),
+              rubricSource: rubric ? 'supplied' : 'generated',
+              questions: outline.questions,
+              answers: []
+            });
+            setProgress(outline.questions.map(q => ({ id: q.id, label: markdownToText(q.question_text), status: 'pending' })));
+            setStep(ProcessingStep.SOLVING);
+            break;
+          case 'status':
+            setProgress(prev => prev.map(p => p.id === event.questionId ? { ...p, status: event.status } : p));
+            break;
+          case 'answer':
+            graded.add(event.answer.questionId);
+            setReport(prev => prev && { ...prev, answers: [...prev.answers, event.answer] });
+            break;
+        }
+      }
+
+      setStep(ProcessingStep.COMPLETED);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        if (abortRef.current !== controller) return;
+        if (!outline) {
+          reset();
+          return;
+        }
+        const remaining = outline.questions
+          .filter(q => !graded.has(q.id))
+          .map(q => ({ questionId: q.id, answer: '', rubric: [], comments: [], feedback: '', error: 'Cancelled before it was graded.' }));
+        setReport(prev => prev && { ...prev, answers: [...prev.answers, ...remaining] });
+        setStep(ProcessingStep.COMPLETED);
+        return;
+      }
+      console.error(err);
+      setError(err.message || "An unexpected error occurred during grading.");
+      setStep(ProcessingStep.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  const openAssignment = (entry: LibraryEntry) => {
+    setError(null);
+    collab.stop();
+    setFiles(entry.files);
+    setAssignmentId(entry.id);
+    setResult(entry.result);
+    setStep(ProcessingStep.COMPLETED);
+  };
+
+  const openShared = (sharedResult: AssignmentResult) => {
+    reset();
+    setShared(sharedResult);
+  };
+
+  const openBundleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openShared(await readBundleFile(file));
+    } catch (err) {
+      console.error("Failed to open shared file", err);
+      window.alert(err instanceof BundleError ? err.message : "Could not open the file. Please try again.");
+    }
+  };
+
+  // The copy is a new, unshared library entry; the read-only original stays untouched
+  const forkShared = async () => {
+    if (!shared) return;
+    const entry = await libraryService.create(shared, []);
+    setShared(null);
+    window.history.replaceState(null, '', window.location.pathname);
+    openAssignment(entry);
+  };
+
   const reset = () => {
+    const running = abortRef.current;
+    abortRef.current = null;
+    running?.abort();
+    collab.stop();
+    setJoining(false);
+    if (shared) {
+      setShared(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
     setStep(ProcessingStep.IDLE);
     setResult(null);
+    setReport(null);
+    setAssignmentId(null);
+    setProgress([]);
+    setFiles([]);
     setError(null);
   };
 
@@ -81,7 +325,28 @@ const App: React.FC = () => {
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 pt-12">
-        {step === ProcessingStep.IDLE && (
+        {joining && (
+          <div className="max-w-md mx-auto py-24 text-center space-y-4">
+            <div className="w-14 h-14 mx-auto rounded-2xl bg-blue-50 text-blue-600 flex items-center justify-center"><Users size={24} /></div>
+            <h2 className="text-2xl font-bold">Joining shared document...</h2>
+            <p className="text-gray-500 flex items-center justify-center gap-2">
+              {collab.snapshot?.status === 'offline'
+                ? `Can't reach the collaboration server at ${relayUrl()}. Retrying...`
+                : <><Loader2 size={16} className="animate-spin" /> Waiting for the document from the other collaborators</>}
+            </p>
+            <button onClick={reset} className="px-6 py-2 bg-gray-900 text-white rounded-xl hover:bg-black transition-colors">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {shared && (
+          <div className="animate-in fade-in duration-700">
+            <SharedAssignmentView result={shared} onFork={forkShared} onClose={reset} />
+          </div>
+        )}
+
+        {step === ProcessingStep.IDLE && !joining && !shared && (
           <div className="text-center space-y-12 py-12 animate-in fade-in duration-700">
             <div className="space-y-6 max-w-3xl mx-auto">
               <div className="inline-flex items-center gap-2 bg-blue-50 text-blue-700 px-4 py-1.5 rounded-full text-sm font-semibold border border-blue-100">
@@ -95,7 +360,43 @@ const App: React.FC = () => {
               </p>
             </div>
 
-            <FileUpload onFileSelect={handleFileSelect} />
+            <div className="inline-flex p-1 bg-white border rounded-xl shadow-sm">
+              {([['solve', 'Solve an assignment'], ['grade', 'Grade a submission']] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setMode(key)}
+                  className={`px-5 py-2 rounded-lg text-sm font-semibold transition-all ${mode === key ? 'bg-gray-900 text-white shadow' : 'text-gray-500 hover:text-gray-900'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'solve' ? (
+              <>
+                <FileUpload onFilesSelect={handleFilesSelect} />
+
+                <label className="flex items-center justify-center gap-2 text-sm text-gray-500 cursor-pointer select-none -mt-6">
+                  <input
+                    type="checkbox"
+                    checked={verifyAnswers}
+                    onChange={(e) => setVerifyAnswers(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Double-check every answer after solving <span className="text-gray-400">(slower)</span>
+                </label>
+                <label className="flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-blue-600 cursor-pointer -mt-8">
+                  <input type="file" accept={`.${BUNDLE_EXTENSION}`} onChange={openBundleFile} className="hidden" />
+                  <FolderOpen size={14} /> Open a shared .{BUNDLE_EXTENSION} file
+                </label>
+              </>
+            ) : (
+              <GradingSetup onStart={handleGradingStart} />
+            )}
+
+            <DailyReview />
+
+            <AssignmentLibrary onOpen={openAssignment} />
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8 pt-12">
               {[
@@ -115,13 +416,13 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {step !== ProcessingStep.IDLE && step !== ProcessingStep.COMPLETED && (
+        {(step === ProcessingStep.EXTRACTING || step === ProcessingStep.ERROR) && (
           <div className="py-12">
             <div className="text-center mb-8">
-              <h2 className="text-2xl font-bold">Analyzing Assignment...</h2>
+              <h2 className="text-2xl font-bold">{mode === 'grade' ? 'Grading Submission...' : 'Analyzing Assignment...'}</h2>
               <p className="text-gray-500">Our engines are working through the complex content</p>
             </div>
-            <AssignmentProcessor currentStep={step} error={error} />
+            <AssignmentProcessor currentStep={step} error={error} progress={progress} verify={mode === 'solve' && verifyAnswers} mode={mode} onCancel={cancelProcessing} />
             {error && (
               <div className="mt-8 text-center">
                 <button 
@@ -135,17 +436,44 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {result && step === ProcessingStep.COMPLETED && (
+        {result && assignmentId && (step === ProcessingStep.SOLVING || step === ProcessingStep.VERIFYING || step === ProcessingStep.COMPLETED) && (
           <div className="animate-in fade-in duration-1000">
-            <SolutionDisplay result={result} setResult={setResult} />
-            <div className="mt-12 text-center pb-12">
-              <button 
-                onClick={reset}
-                className="text-gray-500 hover:text-blue-600 font-medium flex items-center gap-2 mx-auto"
-              >
-                <RefreshCw size={18} /> Solve another assignment
-              </button>
-            </div>
+            {(step === ProcessingStep.SOLVING || step === ProcessingStep.VERIFYING) && (
+              <div className="mb-8">
+                <AssignmentProcessor currentStep={step} progress={progress} assignmentType={result.type} verify={verifyAnswers} onCancel={cancelProcessing} />
+              </div>
+            )}
+            <SolutionDisplay assignmentId={assignmentId} result={result} setResult={setResult} files={files} collab={collab} />
+            {step === ProcessingStep.COMPLETED && (
+              <div className="mt-12 text-center pb-12">
+                <button 
+                  onClick={reset}
+                  className="text-gray-500 hover:text-blue-600 font-medium flex items-center gap-2 mx-auto"
+                >
+                  <RefreshCw size={18} /> Solve another assignment
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        {report && (step === ProcessingStep.SOLVING || step === ProcessingStep.COMPLETED) && (
+          <div className="animate-in fade-in duration-1000">
+            {step === ProcessingStep.SOLVING && (
+              <div className="mb-8">
+                <AssignmentProcessor currentStep={step} progress={progress} assignmentType={report.type} mode="grade" onCancel={cancelProcessing} />
+              </div>
+            )}
+            <GradingReportView report={report} onChange={setReport} />
+            {step === ProcessingStep.COMPLETED && (
+              <div className="mt-12 text-center pb-12">
+                <button 
+                  onClick={reset}
+                  className="text-gray-500 hover:text-blue-600 font-medium flex items-center gap-2 mx-auto"
+                >
+                  <RefreshCw size={18} /> Grade another submission
+                </button>
+              </div>
+            )}
           </div>
         )}
       </main>
@@ -1,33 +1,71 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Sparkles, User, Bot, Minimize2, Trash2, Clock, Check, Zap, MessageSquare, Info } from 'lucide-react';
-import { AssignmentResult, Question } from '../types';
-import { geminiService } from '../services/gemini';
-import { Chat, GenerateContentResponse, Content } from '@google/genai';
-
-interface Message {
-  role: 'user' | 'model';
-  text: string;
-  isSystem?: boolean;
-  timestamp: number;
-}
+import { Send, Loader2, Sparkles, User, Bot, Minimize2, Trash2, Clock, Check, Zap, MessageSquare, Info, TextSelect, X, Archive } from 'lucide-react';
+import { AssignmentResult, ChatMessage } from '../types';
+import { aiService } from '../services/ai';
+import { libraryService } from '../services/library';
+import { ChangeProposal, buildToolProposal, applyChanges, staleChanges } from '../services/review';
+import { codeRunResponse, runCode, selectionResponse } from '../services/tutorTools';
+import { redactHiddenChanges } from '../services/learning';
+import { DocumentSelection, selectionLabel } from '../services/refine';
+import { formatExecutionOutput } from '../services/sandbox';
+import ChangeReview from './ChangeReview';
+import { Collaboration } from '../hooks/useCollaboration';
+import { ChatChunk, ChatSession, TokenUsage, ToolCall, ToolResponse } from '../services/providers/types';
+import { chatContext, summaryCutoff } from '../services/chatContext';
+import { NO_USAGE, addUsage, estimateCost, formatCost, formatTokens } from '../services/usage';
 
 interface AITutorChatProps {
+  assignmentId: string;
   result: AssignmentResult;
-  setResult: React.Dispatch<React.SetStateAction<AssignmentResult | null>>;
+  // Applies a tutor edit to the document as its own labeled history entry
+  onApplyChange: (label: string, updater: (prev: AssignmentResult) => AssignmentResult) => void;
   forceOpen?: boolean;
   onClose?: () => void;
+  // Set while the document is shared; edited questions are locked for the other collaborators
+  collab?: Collaboration;
+  // The student's latest selection in the document, for the explain_selection and replace_selection tools
+  getSelection?: () => DocumentSelection | null;
+  // A selection sent with the next message ("Ask AI" on the selection toolbar)
+  attachedSelection?: DocumentSelection | null;
+  onDetachSelection?: () => void;
+}
+
+interface ToolOutcome {
+  response: Record<string, unknown>;
+  // One line for the transcript saying what the tool did
+  note: string;
 }
 
-const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen, onClose }) => {
+// Tool rounds per message before further calls are refused and the tutor has to answer
+const MAX_TOOL_ROUNDS = 6;
+
+const AITutorChat: React.FC<AITutorChatProps> = ({ assignmentId, result, onApplyChange, forceOpen, onClose, collab, getSelection, attachedSelection, onDetachSelection }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
+  // Id of the assignment whose transcript is currently loaded; saving waits for it
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [pendingReview, setPendingReview] = useState<{ proposal: ChangeProposal; resolve: (keys: string[]) => void } | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  // Tokens used since the transcript was opened or cleared, as reported by the provider
+  const [usage, setUsage] = useState<TokenUsage>(NO_USAGE);
   const scrollRef = useRef<HTMLDivElement>(null);
-
-  const storageKey = `aceassign_chat_${result.title.replace(/\s+/g, '_').toLowerCase()}`;
+  // Tool calls arrive mid-stream, after the user may have edited; always diff against the latest document
+  const resultRef = useRef(result);
+  resultRef.current = result;
+  // The selection the current message was sent with; tools fall back to the latest one
+  const sentSelectionRef = useRef<DocumentSelection | null>(null);
+  const currentSelection = () => sentSelectionRef.current ?? getSelection?.() ?? null;
+  // What the running session was last given, so it is refreshed only when the document changes
+  const sessionResultRef = useRef<AssignmentResult | null>(null);
+  const sessionSummaryRef = useRef<string | undefined>(undefined);
+  // Set synchronously so the session isn't started from the history that is about to be summarized
+  const summarizingRef = useRef(false);
+  // Transcript length at the last summary attempt; a failed attempt isn't retried until the chat moves on
+  const summaryAttemptRef = useRef(0);
 
   // Sync with external forceOpen prop
   useEffect(() => {
@@ -35,42 +73,80 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
   }, [forceOpen]);
 
   useEffect(() => {
-    const saved = localStorage.getItem(storageKey);
-    if (saved) {
-      try {
-        setMessages(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse saved chat", e);
-      }
-    } else {
-      setMessages([
-        { 
-          role: 'model', 
-          text: `Hi! I'm your AI Tutor. I'm connected to your live document. I can help you explain these concepts, verify the code, or even edit the solutions for you. How can I help?`,
-          timestamp: Date.now()
-        }
-      ]);
-    }
-  }, [storageKey]);
+    let cancelled = false;
+    setLoadedId(null);
+    setChatSession(null);
+    setUsage(NO_USAGE);
+    summaryAttemptRef.current = 0;
+    libraryService.getChat(assignmentId)
+      .catch(e => {
+        console.error("Failed to load saved chat", e);
+        return [];
+      })
+      .then(saved => {
+        if (cancelled) return;
+        setMessages(saved.length > 0 ? saved : [
+          { 
+            role: 'model', 
+            text: `Hi! I'm your AI Tutor. I'm connected to your live document. I can help you explain these concepts, verify the code, or even edit the solutions for you. How can I help?`,
+            timestamp: Date.now()
+          }
+        ]);
+        setLoadedId(assignmentId);
+      });
+    return () => { cancelled = true; };
+  }, [assignmentId]);
 
   useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem(storageKey, JSON.stringify(messages));
+    if (loadedId === assignmentId && messages.length > 0) {
+      libraryService.saveChat(assignmentId, messages).catch(e => console.error("Failed to save chat", e));
     }
-  }, [messages, storageKey]);
+  }, [messages, assignmentId, loadedId]);
 
+  // Once the replayed history outgrows its budget, older turns are folded into a summary and the session restarts
   useEffect(() => {
-    if (isOpen && !chatSession) {
-      const history: Content[] = messages
-        .filter(m => !m.isSystem)
-        .map(m => ({
-          role: m.role,
-          parts: [{ text: m.text }]
-        }));
-
-      setChatSession(geminiService.startChat(result, history));
+    if (!isOpen || loadedId !== assignmentId || isLoading || summarizingRef.current) return;
+    if (messages.length <= summaryAttemptRef.current) return;
+    const cutoff = summaryCutoff(messages);
+    if (cutoff === null) return;
+
+    summarizingRef.current = true;
+    summaryAttemptRef.current = messages.length;
+    setIsSummarizing(true);
+    const { summary, turns } = chatContext(messages.slice(0, cutoff));
+    const firstKept = messages[cutoff];
+    aiService.summarizeChat(resultRef.current, summary, turns)
+      .then(({ summary: text, usage: used }) => {
+        setUsage(prev => addUsage(prev, used));
+        setMessages(prev => {
+          const at = prev.indexOf(firstKept);
+          if (at === -1) return prev;
+          return [...prev.slice(0, at), { role: 'model', text, isSummary: true, timestamp: Date.now() }, ...prev.slice(at)];
+        });
+        setChatSession(null);
+      })
+      .catch(e => console.error("Failed to summarize the chat", e))
+      .finally(() => {
+        summarizingRef.current = false;
+        setIsSummarizing(false);
+      });
+  }, [isOpen, loadedId, assignmentId, isLoading, messages]);
+
+  useEffect(() => {
+    if (isOpen && !chatSession && loadedId === assignmentId && !summarizingRef.current) {
+      const { summary, turns } = chatContext(messages);
+      sessionResultRef.current = result;
+      sessionSummaryRef.current = summary;
+      setChatSession(aiService.startChat(result, turns, summary));
     }
-  }, [isOpen, result, chatSession, messages]);
+  }, [isOpen, result, chatSession, messages, loadedId, assignmentId, isSummarizing]);
+
+  // Edits (the student's, the tutor's or a collaborator's) and learning-mode reveals reach the tutor with the next message
+  useEffect(() => {
+    if (!chatSession || result === sessionResultRef.current) return;
+    sessionResultRef.current = result;
+    aiService.refreshChat(chatSession, result, sessionSummaryRef.current);
+  }, [chatSession, result]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -79,18 +155,19 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
         behavior: 'smooth'
       });
     }
-  }, [messages, isLoading, isOpen]);
+  }, [messages, isLoading, isOpen, pendingReview]);
 
   const clearHistory = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm("Clear all chat history for this assignment?")) {
-      localStorage.removeItem(storageKey);
       setMessages([{ 
         role: 'model', 
         text: `History cleared. Your document state is preserved. What's next?`,
         timestamp: Date.now()
       }]);
       setChatSession(null); 
+      setUsage(NO_USAGE);
+      summaryAttemptRef.current = 0;
     }
   };
 
@@ -101,23 +178,28 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
   };
 
   const handleSend = async () => {
-    if (!input.trim() || !chatSession || isLoading) return;
+    if (!input.trim() || !chatSession || isLoading || isSummarizing) return;
 
     const userMessage = input.trim();
+    const selection = attachedSelection?.text.trim() ? attachedSelection : null;
+    sentSelectionRef.current = selection;
     setInput('');
+    onDetachSelection?.();
     setMessages(prev => [...prev, { role: 'user', text: userMessage, timestamp: Date.now() }]);
     setIsLoading(true);
 
     try {
       let fullText = '';
       
-      const processStream = async (stream: any) => {
-        let calls: any[] = [];
-        for await (const chunk of stream) {
-          const c = chunk as GenerateContentResponse;
-          
-          if (c.functionCalls && c.functionCalls.length > 0) {
-            calls.push(...c.functionCalls);
+      const processStream = async (stream: AsyncIterable<ChatChunk>) => {
+        let calls: ToolCall[] = [];
+        for await (const c of stream) {
+          if (c.toolCalls && c.toolCalls.length > 0) {
+            calls.push(...c.toolCalls);
+          }
+          if (c.usage) {
+            const used = c.usage;
+            setUsage(prev => addUsage(prev, used));
           }
 
           const text = c.text || '';
@@ -138,68 +220,34 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
         return calls;
       };
 
-      const initialStream = await chatSession.sendMessageStream({ message: userMessage });
-      const toolCalls = await processStream(initialStream);
-
-      if (toolCalls.length > 0) {
-        let updateSummary = "";
-        const functionResponses = toolCalls.map(fc => {
-          if (fc.name === 'update_assignment_content') {
-            const args = fc.args as any;
-            
-            setResult(prev => {
-              if (!prev) return null;
-              let updatedQuestions = [...prev.questions];
-              
-              if (args.questions && Array.isArray(args.questions)) {
-                updatedQuestions = updatedQuestions.map(q => {
-                  const update = args.questions.find((u: any) => String(u.id) === String(q.id));
-                  return update ? { ...q, ...update } : q;
-                });
-                updateSummary += `Modified ${args.questions.length} question(s). `;
-              }
-
-              if (args.title) {
-                updateSummary += "Updated title. ";
-              }
+      let stream = await chatSession.sendMessageStream(selection
+        ? `${userMessage}\n\n(About the passage I selected in ${selectionLabel(resultRef.current, selection)}: "${selection.text}". Call explain_selection for its exact location${selection.range ? ', and replace_selection to change only that passage' : ''}.)`
+        : userMessage);
+      for (let round = 1; ; round++) {
+        const toolCalls = await processStream(stream);
+        if (toolCalls.length === 0 || round > MAX_TOOL_ROUNDS + 1) break;
 
-              return {
-                ...prev,
-                title: args.title || prev.title,
-                questions: updatedQuestions
-              };
-            });
-
-            return {
-              functionResponse: {
-                id: fc.id,
-                name: fc.name,
-                response: { 
-                  status: "success", 
-                  message: "Content updated live." 
-                }
-              }
-            };
-          }
-          return {
-            functionResponse: {
-              id: fc.id,
-              name: fc.name,
-              response: { error: "Unknown function" }
-            }
-          };
-        });
+        // Calls run one after another: later ones may build on what earlier ones changed
+        const outcomes: ToolOutcome[] = [];
+        for (const fc of toolCalls) {
+          outcomes.push(round > MAX_TOOL_ROUNDS
+            ? { response: { error: "Tool call limit reached for this message. Answer the student with what you have." }, note: `Skipped ${fc.name}: too many steps` }
+            : await runTool(fc));
+        }
 
         setMessages(prev => [...prev, { 
           role: 'model', 
-          text: `✨ Applied changes: ${updateSummary || 'Updated content.'}`, 
+          text: outcomes.map(o => o.note).join('\n'), 
           isSystem: true,
           timestamp: Date.now()
         }]);
         
         fullText = '';
-        const followUpStream = await chatSession.sendMessageStream({ message: functionResponses });
-        await processStream(followUpStream);
+        stream = await chatSession.sendMessageStream(toolCalls.map((fc, i): ToolResponse => ({
+          id: fc.id,
+          name: fc.name,
+          response: outcomes[i].response
+        })));
       }
 
     } catch (error) {
@@ -214,6 +262,114 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
     }
   };
 
+  // Several tool calls can run before React re-renders; keep the ref current so each sees the last one's edits
+  const applyChange = (label: string, updater: (prev: AssignmentResult) => AssignmentResult) => {
+    resultRef.current = updater(resultRef.current);
+    onApplyChange(label, updater);
+  };
+
+  const runTool = async (fc: ToolCall): Promise<ToolOutcome> => {
+    const proposal = buildToolProposal(resultRef.current, fc.name, fc.args, currentSelection());
+    if (proposal) return applyEdit(fc, proposal);
+
+    switch (fc.name) {
+      case 'run_code': {
+        try {
+          const run = await runCode(resultRef.current, fc.args);
+          const { questionId, execution } = run;
+          const label = questionId ? `Q${resultRef.current.questions.findIndex(q => q.id === questionId) + 1}` : 'a snippet';
+          if (questionId) {
+            applyChange(`AI: Run code (${label})`, prev => ({
+              ...prev,
+              questions: prev.questions.map(q => q.id === questionId ? { ...q, execution, execution_output: formatExecutionOutput(execution) } : q)
+            }));
+          }
+          return { response: codeRunResponse(run), note: `▶ Ran ${label}${execution.simulated ? ' (simulated)' : ''}` };
+        } catch (err) {
+          console.error("Tutor code run failed", err);
+          return { response: { error: err instanceof Error ? err.message : 'The code could not be run.' }, note: '▶ Could not run the code' };
+        }
+      }
+      case 'explain_selection': {
+        const response = selectionResponse(resultRef.current, currentSelection());
+        return { response, note: response.error ? '🔍 Nothing selected in the document' : '🔍 Read your selection' };
+      }
+      default:
+        return { response: { error: "Unknown function" }, note: `Unknown tool: ${fc.name}` };
+    }
+  };
+
+  const applyEdit = async (fc: ToolCall, initial: ChangeProposal): Promise<ToolOutcome> => {
+    if (initial.changes.length === 0) {
+      return {
+        response: { status: "rejected", skipped: initial.skipped, message: initial.skipped.length > 0 ? "The edit could not be applied." : "Nothing to change." },
+        note: initial.skipped.length > 0 ? `✨ Skipped: ${initial.skipped.join(', ')}` : '✨ No changes needed.'
+      };
+    }
+
+    // The student may have edited since the call arrived; review against the latest document
+    const proposal = buildToolProposal(resultRef.current, fc.name, fc.args, currentSelection()) || initial;
+    const acceptedKeys = proposal.changes.length > 0 ? await requestReview(redactHiddenChanges(resultRef.current, proposal)) : [];
+    const accepted = proposal.changes.filter(c => acceptedKeys.includes(c.key));
+    const rejected = proposal.changes.filter(c => !acceptedKeys.includes(c.key));
+
+    // Collaborators can keep editing during the review; the questions are only locked while applying
+    const apply = async () => {
+      if (staleChanges(resultRef.current, accepted).length > 0) return false;
+      applyChange(`AI: ${accepted.map(c => c.label).join(', ')}`, prev => applyChanges(prev, accepted));
+      return true;
+    };
+    const targeted = [...new Set(accepted.flatMap(c => c.questionId ? [c.questionId] : []))];
+    const applied = accepted.length === 0 || (collab ? await collab.withLocks(targeted, apply) : await apply());
+    if (applied === null) {
+      return {
+        response: {
+          status: "rejected",
+          message: "Another collaborator's AI tutor is editing one of these questions right now. Nothing was changed; suggest trying again in a moment."
+        },
+        note: "✨ Edit skipped: another collaborator's AI tutor is editing the same question."
+      };
+    }
+    if (!applied) {
+      return {
+        response: {
+          status: "rejected",
+          message: "The document changed while the student was reviewing your edits. Nothing was changed; read the latest content before proposing the edit again."
+        },
+        note: "✨ Edit skipped: the document changed during the review."
+      };
+    }
+
+    return {
+      response: { 
+        status: accepted.length === 0 ? "rejected" : rejected.length > 0 ? "partially_applied" : "success",
+        accepted: accepted.map(c => c.label),
+        rejected: rejected.map(c => c.label),
+        skipped: proposal.skipped,
+        message: rejected.length > 0
+          ? "The student reviewed your edits and rejected some of them. Only the accepted fields were changed."
+          : accepted.length > 0 ? "The student accepted all edits." : "No changes were applied."
+      },
+      note: `✨ Applied changes: ${accepted.length} of ${proposal.changes.length} edit(s) accepted.`
+    };
+  };
+
+  // Shows the diff review card and waits until the student submits their decisions
+  const requestReview = (proposal: ChangeProposal) =>
+    new Promise<string[]>(resolve => {
+      setPendingReview({
+        proposal,
+        resolve: (keys) => {
+          setPendingReview(null);
+          resolve(keys);
+        }
+      });
+    });
+
+  const chatModel = aiService.getConfig().chat.model;
+  const usedTokens = usage.inputTokens + usage.outputTokens;
+  const cost = estimateCost(chatModel, usage);
+
   const formatTime = (ts: number) => {
     return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
@@ -237,7 +393,7 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
   }
 
   return (
-    <div className="fixed bottom-8 right-8 w-[440px] h-[700px] bg-[#fdfdfd] rounded-[2.5rem] shadow-[0_24px_80px_-16px_rgba(0,0,0,0.25)] border border-slate-200 flex flex-col z-[10000] overflow-hidden animate-in slide-in-from-bottom-12 fade-in duration-500 no-print">
+    <div data-history-ignore className="fixed bottom-8 right-8 w-[440px] h-[700px] bg-[#fdfdfd] rounded-[2.5rem] shadow-[0_24px_80px_-16px_rgba(0,0,0,0.25)] border border-slate-200 flex flex-col z-[10000] overflow-hidden animate-in slide-in-from-bottom-12 fade-in duration-500 no-print">
       {/* Premium Header */}
       <div className="bg-white border-b border-slate-100 p-6 flex items-center justify-between">
         <div className="flex items-center gap-4">
@@ -252,6 +408,14 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
             <div className="flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
               <span className="text-[11px] text-slate-400 font-semibold">Active & Connected</span>
+              {usedTokens > 0 && (
+                <span
+                  className="text-[11px] text-slate-300 font-semibold"
+                  title={`${usage.inputTokens.toLocaleString()} input and ${usage.outputTokens.toLocaleString()} output tokens this session with ${chatModel}${cost === null ? '' : '. The cost is an estimate from list prices.'}`}
+                >
+                  · {formatTokens(usedTokens)} tokens{cost !== null && ` · ~${formatCost(cost)}`}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -286,7 +450,13 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
 
         {messages.map((msg, i) => (
           <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in fade-in slide-in-from-bottom-4 duration-300`}>
-            {msg.isSystem ? (
+            {msg.isSummary ? (
+               <div className="w-full flex items-center gap-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-300" title={msg.text}>
+                  <div className="flex-1 border-t border-slate-200" />
+                  <span className="flex items-center gap-1.5"><Archive size={12} /> Earlier messages summarized for the tutor</span>
+                  <div className="flex-1 border-t border-slate-200" />
+               </div>
+            ) : msg.isSystem ? (
                <div className="w-full flex justify-center py-4">
                   <div className="bg-gradient-to-r from-emerald-50 to-teal-50 text-emerald-700 px-5 py-2.5 rounded-2xl text-xs font-bold border border-emerald-100 flex items-center gap-3 shadow-sm">
                     <div className="bg-emerald-500 text-white p-1 rounded-full"><Check size={12} strokeWidth={4} /></div>
@@ -322,7 +492,19 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
             )}
           </div>
         ))}
-        {isLoading && messages.length > 0 && messages[messages.length-1].role === 'user' && (
+        {pendingReview && (
+          <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+            <ChangeReview proposal={pendingReview.proposal} onSubmit={pendingReview.resolve} />
+          </div>
+        )}
+        {isSummarizing && (
+          <div className="flex justify-center">
+             <div className="flex gap-2.5 items-center text-slate-500 text-[10px] font-black bg-slate-50 px-4 py-2 rounded-2xl border border-slate-200 uppercase tracking-widest">
+                <Loader2 size={14} className="animate-spin" /> Condensing earlier messages...
+             </div>
+          </div>
+        )}
+        {isLoading && !pendingReview && messages.length > 0 && messages[messages.length-1].role === 'user' && (
           <div className="flex justify-start ml-14">
              <div className="flex gap-2.5 items-center text-blue-600 text-[10px] font-black bg-blue-50/80 backdrop-blur-md px-4 py-2 rounded-2xl border border-blue-100 shadow-sm uppercase tracking-widest">
                 <Loader2 size={14} className="animate-spin" /> Thinking...
@@ -333,6 +515,16 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
 
       {/* Enhanced Input Area */}
       <div className="p-6 bg-white border-t border-slate-100 space-y-4">
+        {attachedSelection && (
+          <div className="flex items-center gap-2 px-4 py-2.5 bg-blue-50 border border-blue-100 rounded-2xl text-[11px] text-blue-700">
+            <TextSelect size={14} className="flex-shrink-0" />
+            <span className="font-black uppercase tracking-wider flex-shrink-0">{selectionLabel(result, attachedSelection)}</span>
+            <span className="truncate italic">“{attachedSelection.text}”</span>
+            <button onClick={onDetachSelection} className="ml-auto p-1 hover:bg-blue-100 rounded-lg flex-shrink-0" title="Don't send the selection">
+              <X size={12} />
+            </button>
+          </div>
+        )}
         <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
            {['Rewrite simply', 'Add comments to code', 'Check math steps', 'Summarize key points'].map(pill => (
              <button 
@@ -358,7 +550,7 @@ const AITutorChat: React.FC<AITutorChatProps> = ({ result, setResult, forceOpen,
           />
           <button
             onClick={handleSend}
-            disabled={!input.trim() || isLoading}
+            disabled={!input.trim() || isLoading || isSummarizing}
             className={`absolute right-2 p-3 rounded-2xl transition-all ${
               input.trim() && !isLoading 
               ? 'bg-gradient-to-br from-blue-600 to-indigo-700 text-white hover:scale-105 active:scale-95 shadow-xl shadow-blue-200' 
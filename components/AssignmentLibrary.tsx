@@ -0,0 +1,133 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Library, Search, Copy, Trash2, FolderOpen, Clock, Code, BookOpen, Layers } from 'lucide-react';
+import { AssignmentType, LibraryEntry } from '../types';
+import { libraryService, LibrarySort } from '../services/library';
+
+interface AssignmentLibraryProps {
+  onOpen: (entry: LibraryEntry) => void;
+}
+
+const typeIcons: Record<AssignmentType, React.ReactNode> = {
+  [AssignmentType.THEORY]: <BookOpen size={16} />,
+  [AssignmentType.CODING]: <Code size={16} />,
+  [AssignmentType.MIXED]: <Layers size={16} />
+};
+
+const AssignmentLibrary: React.FC<AssignmentLibraryProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('updated');
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await libraryService.list(query, sort));
+    } catch (e) {
+      console.error("Failed to load library", e);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [query, sort]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    await libraryService.duplicate(id);
+    refresh();
+  };
+
+  const handleDelete = async (e: React.MouseEvent, entry: LibraryEntry) => {
+    e.stopPropagation();
+    if (window.confirm(`Delete "${entry.title}" and its chat history?`)) {
+      await libraryService.delete(entry.id);
+      refresh();
+    }
+  };
+
+  // Nothing saved yet and no active search: keep the landing page clean
+  if (!isLoaded || (entries.length === 0 && !query)) return null;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto text-left">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-gray-900">
+          <Library size={20} className="text-blue-600" /> Your Library
+        </h2>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search assignments..."
+              className="pl-9 pr-3 py-2 bg-white border rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-100 w-64"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as LibrarySort)}
+            className="py-2 px-3 bg-white border rounded-xl text-sm text-gray-600 focus:outline-none cursor-pointer"
+          >
+            <option value="updated">Last edited</option>
+            <option value="created">Date created</option>
+            <option value="title">Title</option>
+          </select>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-8">No assignments match "{query}".</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              onClick={() => onOpen(entry)}
+              className="group bg-white p-5 rounded-2xl border shadow-sm hover:shadow-md hover:border-blue-200 transition-all cursor-pointer flex items-start gap-4"
+            >
+              <div className="bg-slate-50 w-10 h-10 rounded-xl flex items-center justify-center text-blue-600 flex-shrink-0">
+                {typeIcons[entry.type] || <FolderOpen size={16} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="font-bold text-gray-900 truncate">{entry.title}</h3>
+                <div className="flex items-center gap-3 text-xs text-gray-400 mt-1">
+                  <span>{entry.questionCount} question{entry.questionCount === 1 ? '' : 's'}</span>
+                  <span className="flex items-center gap-1">
+                    <Clock size={12} /> {new Date(entry.updatedAt).toLocaleDateString()}
+                  </span>
+                  {entry.files.length > 0 && (
+                    <span className="truncate">
+                      {entry.files[0].name}{entry.files.length > 1 ? ` +${entry.files.length - 1}` : ''}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => handleDuplicate(e, entry.id)}
+                  className="p-2 hover:bg-blue-50 text-gray-400 hover:text-blue-600 rounded-lg"
+                  title="Duplicate"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={(e) => handleDelete(e, entry)}
+                  className="p-2 hover:bg-red-50 text-gray-400 hover:text-red-500 rounded-lg"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentLibrary;
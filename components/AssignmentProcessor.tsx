@@ -1,23 +1,75 @@
 
 import React from 'react';
-import { Loader2, CheckCircle2, Circle } from 'lucide-react';
-import { ProcessingStep } from '../types';
+import { Loader2, CheckCircle2, Circle, Terminal, XCircle, Square, ShieldCheck } from 'lucide-react';
+import { AssignmentType, ProcessingStep, QuestionProgress, QuestionStatus } from '../types';
 
 interface AssignmentProcessorProps {
   currentStep: ProcessingStep;
   error?: string | null;
+  progress?: QuestionProgress[];
+  assignmentType?: AssignmentType;
+  // Whether the verification stage runs after solving
+  verify?: boolean;
+  // Grading mode runs the same stages over a student's submission
+  mode?: 'solve' | 'grade';
+  onCancel?: () => void;
 }
 
-const steps = [
-  { key: ProcessingStep.EXTRACTING, label: 'Extracting Content' },
-  { key: ProcessingStep.CLASSIFYING, label: 'Classifying Assignment' },
+const GRADING_LABELS: Partial<Record<ProcessingStep, string>> = {
+  [ProcessingStep.EXTRACTING]: 'Extracting Questions & Matching Answers',
+  [ProcessingStep.SOLVING]: 'Grading Answers',
+  [ProcessingStep.COMPLETED]: 'Feedback Report Ready'
+};
+
+const ALL_STEPS = [
+  { key: ProcessingStep.EXTRACTING, label: 'Extracting & Classifying Questions' },
   { key: ProcessingStep.SOLVING, label: 'Solving Questions' },
+  { key: ProcessingStep.VERIFYING, label: 'Verifying Answers' },
   { key: ProcessingStep.COMPLETED, label: 'Ready to Export' },
 ];
 
-const AssignmentProcessor: React.FC<AssignmentProcessorProps> = ({ currentStep, error }) => {
+const STATUS_LABELS: Record<QuestionStatus, string> = {
+  pending: 'Queued',
+  solving: 'Solving',
+  executing: 'Running code',
+  done: 'Solved',
+  failed: 'Failed',
+  verifying: 'Verifying',
+  verified: 'Checked'
+};
+
+const StatusIcon: React.FC<{ status: QuestionStatus }> = ({ status }) => {
+  switch (status) {
+    case 'done':
+      return <CheckCircle2 size={16} className="text-green-500 flex-shrink-0" />;
+    case 'solving':
+      return <Loader2 size={16} className="text-blue-500 animate-spin flex-shrink-0" />;
+    case 'executing':
+      return <Terminal size={16} className="text-purple-500 animate-pulse flex-shrink-0" />;
+    case 'failed':
+      return <XCircle size={16} className="text-red-500 flex-shrink-0" />;
+    case 'verifying':
+      return <ShieldCheck size={16} className="text-amber-500 animate-pulse flex-shrink-0" />;
+    case 'verified':
+      return <ShieldCheck size={16} className="text-green-500 flex-shrink-0" />;
+    default:
+      return <Circle size={16} className="text-gray-300 flex-shrink-0" />;
+  }
+};
+
+const AssignmentProcessor: React.FC<AssignmentProcessorProps> = ({ currentStep, error, progress = [], assignmentType, verify = false, mode = 'solve', onCancel }) => {
   if (currentStep === ProcessingStep.IDLE && !error) return null;
 
+  const steps = ALL_STEPS
+    .filter(s => verify || s.key !== ProcessingStep.VERIFYING)
+    .map(s => mode === 'grade' ? { ...s, label: GRADING_LABELS[s.key] || s.label } : s);
+  const statusLabel = (status: QuestionStatus) =>
+    mode === 'grade' ? (status === 'solving' ? 'Grading' : status === 'done' ? 'Graded' : STATUS_LABELS[status]) : STATUS_LABELS[status];
+  const solvedCount = progress.filter(p => p.status === 'done' || p.status === 'verifying' || p.status === 'verified').length;
+  const checkedCount = progress.filter(p => p.status === 'verified').length;
+  const failedCount = progress.filter(p => p.status === 'failed').length;
+  const isRunning = currentStep === ProcessingStep.EXTRACTING || currentStep === ProcessingStep.SOLVING || currentStep === ProcessingStep.VERIFYING;
+
   const getStepIcon = (stepKey: ProcessingStep) => {
     const stepOrder = steps.findIndex(s => s.key === stepKey);
     const currentOrder = steps.findIndex(s => s.key === currentStep);
@@ -32,9 +84,32 @@ const AssignmentProcessor: React.FC<AssignmentProcessorProps> = ({ currentStep,
     return <Circle className="text-gray-300" />;
   };
 
+  const stepDetail = (stepKey: ProcessingStep) => {
+    if (stepKey === ProcessingStep.EXTRACTING && progress.length > 0) {
+      return `${progress.length} question${progress.length === 1 ? '' : 's'}${assignmentType ? ` · ${assignmentType}` : ''}`;
+    }
+    if (stepKey === ProcessingStep.SOLVING && progress.length > 0) {
+      return `${solvedCount} of ${progress.length} ${mode === 'grade' ? 'graded' : 'solved'}${failedCount ? ` · ${failedCount} failed` : ''}`;
+    }
+    if (stepKey === ProcessingStep.VERIFYING && currentStep === ProcessingStep.VERIFYING) {
+      return `${checkedCount} of ${solvedCount} checked`;
+    }
+    return null;
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto mt-8 bg-white rounded-2xl shadow-sm border p-6">
-      <h3 className="text-lg font-medium text-gray-900 mb-6">Processing Pipeline</h3>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-medium text-gray-900">Processing Pipeline</h3>
+        {isRunning && onCancel && (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-500 border rounded-lg hover:text-red-600 hover:border-red-200 hover:bg-red-50 transition-colors"
+          >
+            <Square size={12} /> Cancel
+          </button>
+        )}
+      </div>
       <div className="space-y-4">
         {steps.map((step) => (
           <div key={step.key} className="flex items-center space-x-4">
@@ -42,9 +117,24 @@ const AssignmentProcessor: React.FC<AssignmentProcessorProps> = ({ currentStep,
             <span className={`text-sm ${currentStep === step.key ? 'font-medium text-blue-600' : 'text-gray-500'}`}>
               {step.label}
             </span>
+            {stepDetail(step.key) && (
+              <span className="text-xs text-gray-400">{stepDetail(step.key)}</span>
+            )}
           </div>
         ))}
       </div>
+      {progress.length > 0 && (
+        <div className="mt-6 border-t pt-4 space-y-2 max-h-64 overflow-y-auto">
+          {progress.map((p, i) => (
+            <div key={p.id} className="flex items-center gap-3 text-sm">
+              <StatusIcon status={p.status} />
+              <span className="text-xs font-bold text-gray-300 w-6">Q{i + 1}</span>
+              <span className={`flex-1 truncate ${p.status === 'pending' ? 'text-gray-400' : p.status === 'failed' ? 'text-red-600' : 'text-gray-700'}`}>{p.label}</span>
+              <span className="text-[11px] text-gray-400">{statusLabel(p.status)}</span>
+            </div>
+          ))}
+        </div>
+      )}
       {error && (
         <div className="mt-6 p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-600">
           <strong>Error:</strong> {error}
@@ -0,0 +1,306 @@
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Camera, X, RotateCcw, RotateCw, Check, Trash2, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { FileData } from '../types';
+import {
+  Quad, EnhanceMode, drawScaled, rotateQuarterTurns, fullQuad, warpQuad, enhance, canvasToBase64
+} from '../services/imageProcessing';
+
+interface CameraCaptureProps {
+  onCapture: (files: FileData[]) => void;
+  onClose: () => void;
+}
+
+interface CapturedPage {
+  id: string;
+  original: HTMLCanvasElement;
+  thumbnail: string;
+  rotation: number;
+  // Corners in the coordinate space of the rotated image
+  quad: Quad;
+  enhance: EnhanceMode;
+}
+
+const ENHANCE_OPTIONS: { value: EnhanceMode; label: string }[] = [
+  { value: 'none', label: 'Original' },
+  { value: 'contrast', label: 'Contrast' },
+  { value: 'scan', label: 'Scan (B/W)' }
+];
+
+// Small inset so the default quad handles are visible and grabbable
+const insetQuad = (width: number, height: number): Quad => {
+  const dx = width * 0.04;
+  const dy = height * 0.04;
+  return [
+    { x: dx, y: dy },
+    { x: width - dx, y: dy },
+    { x: width - dx, y: height - dy },
+    { x: dx, y: height - dy }
+  ];
+};
+
+const processPage = (page: CapturedPage): HTMLCanvasElement => {
+  const rotated = rotateQuarterTurns(page.original, page.rotation);
+  return enhance(warpQuad(rotated, page.quad), page.enhance);
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const [pages, setPages] = useState<CapturedPage[]>([]);
+  const [mode, setMode] = useState<'camera' | 'edit'>('camera');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [dragCorner, setDragCorner] = useState<number | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (mode !== 'camera') return;
+    let cancelled = false;
+    navigator.mediaDevices?.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }
+    })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(err => {
+        console.error("Camera unavailable", err);
+        setCameraError("Camera access was denied or no camera is available.");
+      });
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+    };
+  }, [mode]);
+
+  const selected = pages.find(p => p.id === selectedId) || null;
+
+  // Rotated image shown under the corner editor
+  const rotatedUrl = useMemo(() => {
+    if (!selected) return null;
+    return rotateQuarterTurns(selected.original, selected.rotation).toDataURL('image/jpeg', 0.8);
+  }, [selected?.original, selected?.rotation]);
+
+  const rotatedSize = selected
+    ? (selected.rotation % 2 === 0
+        ? { width: selected.original.width, height: selected.original.height }
+        : { width: selected.original.height, height: selected.original.width })
+    : { width: 1, height: 1 };
+
+  const updatePage = (id: string, patch: Partial<CapturedPage>) => {
+    setPreview(null);
+    setPages(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = drawScaled(video, video.videoWidth, video.videoHeight);
+    setPages(prev => [...prev, {
+      id: Math.random().toString(36).substr(2, 9),
+      original: canvas,
+      thumbnail: canvas.toDataURL('image/jpeg', 0.4),
+      rotation: 0,
+      quad: insetQuad(canvas.width, canvas.height),
+      enhance: 'contrast'
+    }]);
+  };
+
+  const rotate = (page: CapturedPage, delta: number) => {
+    const rotation = (page.rotation + delta + 4) % 4;
+    const swap = rotation % 2 === 1;
+    const width = swap ? page.original.height : page.original.width;
+    const height = swap ? page.original.width : page.original.height;
+    updatePage(page.id, { rotation, quad: insetQuad(width, height) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragCorner === null || !selected || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = Math.min(rotatedSize.width, Math.max(0, ((e.clientX - rect.left) / rect.width) * rotatedSize.width));
+    const y = Math.min(rotatedSize.height, Math.max(0, ((e.clientY - rect.top) / rect.height) * rotatedSize.height));
+    const quad = [...selected.quad] as Quad;
+    quad[dragCorner] = { x, y };
+    updatePage(selected.id, { quad });
+  };
+
+  const togglePreview = () => {
+    if (preview || !selected) {
+      setPreview(null);
+      return;
+    }
+    setPreview(processPage(selected).toDataURL('image/jpeg', 0.8));
+  };
+
+  const finish = async () => {
+    setIsProcessing(true);
+    // Yield so the spinner paints before the synchronous pixel work starts
+    await new Promise(r => setTimeout(r, 50));
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const files: FileData[] = pages.map((page, i) => ({
+      name: `camera-${stamp}-page-${i + 1}.jpg`,
+      type: 'image/jpeg',
+      base64: canvasToBase64(processPage(page))
+    }));
+    setIsProcessing(false);
+    onCapture(files);
+  };
+
+  const handleRadius = Math.max(rotatedSize.width, rotatedSize.height) / 60;
+
+  return (
+    <div className="fixed inset-0 z-[10001] bg-slate-950/95 flex flex-col text-white" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+        <div className="flex items-center gap-3 font-bold">
+          <Camera size={20} /> {mode === 'camera' ? 'Capture Pages' : 'Adjust Pages'}
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-6 overflow-hidden">
+        {mode === 'camera' && (
+          cameraError ? (
+            <p className="text-sm text-red-300">{cameraError}</p>
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted className="max-h-full max-w-full rounded-2xl shadow-2xl" />
+          )
+        )}
+
+        {mode === 'edit' && selected && rotatedUrl && (
+          preview ? (
+            <img src={preview} alt="Processed page" className="max-h-full max-w-full rounded-lg shadow-2xl bg-white" />
+          ) : (
+            <div className="relative max-h-full max-w-full" style={{ aspectRatio: `${rotatedSize.width} / ${rotatedSize.height}`, height: '100%' }}>
+              <img src={rotatedUrl} alt="Captured page" className="absolute inset-0 w-full h-full rounded-lg" />
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${rotatedSize.width} ${rotatedSize.height}`}
+                className="absolute inset-0 w-full h-full touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragCorner(null)}
+                onPointerLeave={() => setDragCorner(null)}
+              >
+                <polygon
+                  points={selected.quad.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="rgba(37, 99, 235, 0.15)"
+                  stroke="#3b82f6"
+                  strokeWidth={handleRadius / 3}
+                />
+                {selected.quad.map((p, i) => (
+                  <circle
+                    key={i}
+                    cx={p.x}
+                    cy={p.y}
+                    r={handleRadius}
+                    fill="white"
+                    stroke="#2563eb"
+                    strokeWidth={handleRadius / 3}
+                    className="cursor-move"
+                    onPointerDown={(e) => {
+                      (e.target as Element).setPointerCapture?.(e.pointerId);
+                      setDragCorner(i);
+                    }}
+                  />
+                ))}
+              </svg>
+            </div>
+          )
+        )}
+      </div>
+
+      {mode === 'edit' && selected && (
+        <div className="flex items-center justify-center gap-2 pb-4 text-xs font-bold">
+          <button onClick={() => rotate(selected, -1)} className="p-2 bg-white/10 hover:bg-white/20 rounded-lg" title="Rotate left"><RotateCcw size={16} /></button>
+          <button onClick={() => rotate(selected, 1)} className="p-2 bg-white/10 hover:bg-white/20 rounded-lg" title="Rotate right"><RotateCw size={16} /></button>
+          <button
+            onClick={() => updatePage(selected.id, { quad: fullQuad(rotatedSize.width, rotatedSize.height) })}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg"
+          >
+            Reset corners
+          </button>
+          <div className="flex bg-white/10 rounded-lg p-1 gap-1">
+            {ENHANCE_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => updatePage(selected.id, { enhance: o.value })}
+                className={`px-3 py-1 rounded-md ${selected.enhance === o.value ? 'bg-blue-600' : 'hover:bg-white/10'}`}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={togglePreview} className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-2">
+            {preview ? <EyeOff size={16} /> : <Eye size={16} />} {preview ? 'Edit corners' : 'Preview'}
+          </button>
+        </div>
+      )}
+
+      <div className="border-t border-white/10 px-6 py-4 flex items-center gap-4">
+        <div className="flex-1 flex gap-3 overflow-x-auto no-scrollbar">
+          {pages.map((page, i) => (
+            <div key={page.id} className="relative flex-shrink-0">
+              <button
+                onClick={() => { setMode('edit'); setSelectedId(page.id); setPreview(null); }}
+                className={`block rounded-lg overflow-hidden border-2 ${page.id === selectedId && mode === 'edit' ? 'border-blue-500' : 'border-transparent'}`}
+              >
+                <img src={page.thumbnail} alt={`Page ${i + 1}`} className="h-16 w-auto" />
+              </button>
+              <button
+                onClick={() => {
+                  setPages(prev => prev.filter(p => p.id !== page.id));
+                  if (selectedId === page.id) setSelectedId(null);
+                }}
+                className="absolute -top-2 -right-2 bg-red-500 rounded-full p-1"
+                title="Remove page"
+              >
+                <Trash2 size={10} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {mode === 'camera' ? (
+          <>
+            <button
+              onClick={capture}
+              disabled={!!cameraError}
+              className="w-16 h-16 rounded-full bg-white border-4 border-blue-500 hover:scale-105 active:scale-95 transition-transform disabled:opacity-30"
+              title="Take photo"
+            />
+            <button
+              onClick={() => { setMode('edit'); setSelectedId(pages[0]?.id || null); }}
+              disabled={pages.length === 0}
+              className="px-5 py-2 bg-blue-600 rounded-xl text-sm font-semibold disabled:opacity-40"
+            >
+              Next ({pages.length})
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => setMode('camera')} className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-sm font-semibold flex items-center gap-2">
+              <Camera size={16} /> Add page
+            </button>
+            <button
+              onClick={finish}
+              disabled={pages.length === 0 || isProcessing}
+              className="px-5 py-2 bg-blue-600 rounded-xl text-sm font-semibold disabled:opacity-40 flex items-center gap-2"
+            >
+              {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+              Use {pages.length} page{pages.length === 1 ? '' : 's'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import { Check, X, GitCompare } from 'lucide-react';
+import { ChangeProposal } from '../services/review';
+import { diffWords } from '../services/diff';
+
+interface ChangeReviewProps {
+  proposal: ChangeProposal;
+  onSubmit: (acceptedKeys: string[]) => void;
+}
+
+const ChangeReview: React.FC<ChangeReviewProps> = ({ proposal, onSubmit }) => {
+  const [decisions, setDecisions] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(proposal.changes.map(c => [c.key, true]))
+  );
+
+  const setAll = (accepted: boolean) => {
+    setDecisions(Object.fromEntries(proposal.changes.map(c => [c.key, accepted])));
+  };
+
+  const acceptedCount = Object.values(decisions).filter(Boolean).length;
+
+  return (
+    <div className="w-full bg-white border border-blue-100 rounded-3xl shadow-sm overflow-hidden">
+      <div className="px-5 py-3 bg-blue-50/60 border-b border-blue-100 flex items-center justify-between">
+        <span className="text-[11px] font-black uppercase tracking-wider text-blue-700 flex items-center gap-2">
+          <GitCompare size={14} /> Review {proposal.changes.length} proposed edit{proposal.changes.length === 1 ? '' : 's'}
+        </span>
+        <div className="flex gap-1 text-[10px] font-bold">
+          <button onClick={() => setAll(true)} className="px-2 py-1 rounded-lg hover:bg-white text-emerald-600">Accept all</button>
+          <button onClick={() => setAll(false)} className="px-2 py-1 rounded-lg hover:bg-white text-red-500">Reject all</button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+        {proposal.changes.map(change => {
+          const accepted = decisions[change.key];
+          return (
+            <div key={change.key} className={`p-4 space-y-2 transition-opacity ${accepted ? '' : 'opacity-50'}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{change.label}</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setDecisions(d => ({ ...d, [change.key]: true }))}
+                    className={`p-1.5 rounded-lg ${accepted ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-400 hover:text-emerald-600'}`}
+                    title="Accept"
+                  >
+                    <Check size={12} strokeWidth={3} />
+                  </button>
+                  <button
+                    onClick={() => setDecisions(d => ({ ...d, [change.key]: false }))}
+                    className={`p-1.5 rounded-lg ${!accepted ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-400 hover:text-red-500'}`}
+                    title="Reject"
+                  >
+                    <X size={12} strokeWidth={3} />
+                  </button>
+                </div>
+              </div>
+              <div className={`text-[12px] leading-relaxed whitespace-pre-wrap break-words text-slate-600 ${change.field === 'code' ? 'font-mono' : ''}`}>
+                {diffWords(change.before, change.after).map((segment, i) => (
+                  <span
+                    key={i}
+                    className={
+                      segment.type === 'insert' ? 'bg-emerald-100 text-emerald-800' :
+                      segment.type === 'delete' ? 'bg-red-100 text-red-700 line-through' : ''
+                    }
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {proposal.skipped.length > 0 && (
+        <div className="px-5 py-2 text-[10px] text-amber-600 bg-amber-50 border-t border-amber-100">
+          Skipped: {proposal.skipped.join(', ')}
+        </div>
+      )}
+
+      <div className="p-3 border-t border-slate-100 flex justify-end">
+        <button
+          onClick={() => onSubmit(proposal.changes.filter(c => decisions[c.key]).map(c => c.key))}
+          className="bg-gradient-to-br from-blue-600 to-indigo-700 text-white px-4 py-2 rounded-2xl text-[11px] font-bold shadow-md hover:scale-105 active:scale-95 transition-all"
+        >
+          Apply {acceptedCount} of {proposal.changes.length}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeReview;
@@ -0,0 +1,69 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Layers, ArrowRight } from 'lucide-react';
+import { Flashcard } from '../types';
+import { libraryService } from '../services/library';
+import { dueCards } from '../services/flashcards';
+import FlashcardReview from './FlashcardReview';
+
+// Landing page entry point to today's flashcard review across all saved assignments
+const DailyReview: React.FC = () => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [session, setSession] = useState<Flashcard[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCards(await libraryService.listFlashcards());
+    } catch (e) {
+      console.error("Failed to load flashcards", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  if (cards.length === 0) return null;
+
+  const due = dueCards(cards);
+  const assignments = new Set(due.map(c => c.assignmentId)).size;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto">
+      <div className="flex items-center justify-between gap-4 p-5 bg-white border rounded-2xl shadow-sm text-left">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-blue-50 text-blue-600 rounded-xl"><Layers size={20} /></div>
+          <div>
+            <div className="font-bold text-gray-900">
+              {due.length > 0 ? `${due.length} flashcard${due.length === 1 ? '' : 's'} to review today` : 'No flashcards due today'}
+            </div>
+            <div className="text-sm text-gray-500">
+              {due.length > 0
+                ? `From ${assignments} assignment${assignments === 1 ? '' : 's'} · ${cards.length} cards in total`
+                : `${cards.length} cards in total. The next ones come up as you forget them.`}
+            </div>
+          </div>
+        </div>
+        {due.length > 0 && (
+          <button
+            onClick={() => setSession(due)}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Start review <ArrowRight size={16} />
+          </button>
+        )}
+      </div>
+      {session && (
+        <FlashcardReview
+          cards={session}
+          onClose={() => {
+            setSession(null);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DailyReview;
@@ -0,0 +1,105 @@
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { containsMath, renderMathHtml } from '../services/math';
+import { htmlToMarkdown, markdownToHtml } from '../services/markdown';
+
+interface EditableBlockProps {
+  // Markdown with LaTeX math
+  value: string;
+  onUpdate: (v: string) => void;
+  className: string;
+  fontFamily: string;
+  fontSize: string;
+  isHeading?: boolean;
+  placeholder?: string;
+  // Single-line content such as the title: no paragraphs or lists
+  inline?: boolean;
+  // Render LaTeX as math while the block is not being edited
+  math?: boolean;
+  // Forces the LaTeX source view for every block
+  showSource?: boolean;
+  // Field the block edits, so selections inside it can be mapped back to the Markdown
+  field?: string;
+}
+
+const EditableBlock: React.FC<EditableBlockProps> = ({
+  value,
+  onUpdate,
+  className,
+  fontFamily,
+  fontSize,
+  isHeading = false,
+  placeholder = "",
+  inline = false,
+  math = false,
+  showSource = false,
+  field
+}) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The Markdown this block last produced, so our own edits don't re-render under the caret
+  const emittedRef = useRef<string | null>(null);
+  // Serialized form of what the editor currently shows; unchanged content is never re-emitted
+  const serializedRef = useRef('');
+  const [isEditing, setIsEditing] = useState(false);
+  const html = useMemo(() => markdownToHtml(value, inline), [value, inline]);
+  const showPreview = math && containsMath(value) && !isEditing && !showSource;
+  const preview = useMemo(() => (showPreview ? renderMathHtml(html) : ''), [showPreview, html]);
+
+  // Sync outside changes (undo, AI edits) and fill the editor whenever it mounts
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    if (value === emittedRef.current && editor.innerHTML) return;
+    editor.innerHTML = html;
+    emittedRef.current = value;
+    serializedRef.current = htmlToMarkdown(html, inline);
+  }, [html, showPreview]);
+
+  useEffect(() => {
+    if (isEditing) editorRef.current?.focus();
+  }, [isEditing]);
+
+  const handleInput = () => {
+    if (editorRef.current) {
+      const markdown = htmlToMarkdown(editorRef.current.innerHTML, inline);
+      if (markdown === serializedRef.current) return;
+      serializedRef.current = markdown;
+      emittedRef.current = markdown;
+      onUpdate(markdown);
+    }
+  };
+
+  const classes = `rich-content w-full focus:outline-none focus:bg-blue-50/20 p-1 rounded-sm transition-all duration-300 ${className} ${isHeading ? 'font-black tracking-tight' : ''}`;
+  const style = { fontFamily, fontSize: isHeading ? '1.5em' : fontSize };
+
+  if (showPreview) {
+    return (
+      <div
+        data-field={field}
+        onClick={() => setIsEditing(true)}
+        className={`${classes} cursor-text hover:bg-blue-50/20`}
+        style={style}
+        title="Click to edit the LaTeX source"
+        dangerouslySetInnerHTML={{ __html: preview }}
+      />
+    );
+  }
+
+  return (
+    <div
+      ref={editorRef}
+      data-field={field}
+      contentEditable
+      onInput={handleInput}
+      onBlur={() => {
+        handleInput();
+        setIsEditing(false);
+      }}
+      data-placeholder={placeholder || undefined}
+      className={classes}
+      style={style}
+    />
+  );
+};
+
+export default EditableBlock;
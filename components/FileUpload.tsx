@@ -1,42 +1,108 @@
 
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
+import { Upload, FileText, X, ChevronUp, ChevronDown, Loader2, Sparkles, Camera } from 'lucide-react';
 import { FileData } from '../types';
+import { renderPdfThumbnails } from '../services/pdfPreview';
+import CameraCapture from './CameraCapture';
 
 interface FileUploadProps {
-  onFileSelect: (file: FileData) => void;
+  onFilesSelect: (files: FileData[]) => void;
   disabled?: boolean;
+  title?: string;
+  actionLabel?: string;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  const [previewFile, setPreviewFile] = useState<File | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+interface StagedFile {
+  id: string;
+  data: FileData;
+  thumbnails: string[];
+  isRendering: boolean;
+}
 
-  const handleFile = (file: File) => {
-    if (disabled) return;
-    
+const readFile = (file: File): Promise<FileData> =>
+  new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const base64 = (e.target?.result as string).split(',')[1];
-      onFileSelect({
+      resolve({
         name: file.name,
         type: file.type || 'application/pdf',
         base64: base64
       });
     };
+    reader.onerror = () => reject(reader.error);
     reader.readAsDataURL(file);
-    setPreviewFile(file);
+  });
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, disabled, title = 'Upload Assignment', actionLabel = 'Solve' }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [staged, setStaged] = useState<StagedFile[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateStaged = (id: string, patch: Partial<StagedFile>) => {
+    setStaged(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const stage = (data: FileData) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    const isPdf = data.type === 'application/pdf';
+    setStaged(prev => [...prev, {
+      id,
+      data,
+      thumbnails: data.type.startsWith('image/') ? [`data:${data.type};base64,${data.base64}`] : [],
+      isRendering: isPdf
+    }]);
+
+    if (isPdf) {
+      renderPdfThumbnails(data.base64)
+        .then(({ pageCount, thumbnails }) => {
+          setStaged(prev => prev.map(s => s.id === id
+            ? { ...s, data: { ...s.data, pageCount }, thumbnails, isRendering: false }
+            : s
+          ));
+        })
+        .catch(err => {
+          console.error("Failed to render PDF preview", err);
+          updateStaged(id, { isRendering: false });
+        });
+    }
+  };
+
+  const handleFiles = async (files: FileList | File[]) => {
+    if (disabled) return;
+
+    for (const file of Array.from(files)) {
+      try {
+        stage(await readFile(file));
+      } catch (err) {
+        console.error("Failed to read file", err);
+        window.alert(`Could not read "${file.name}". Please try again.`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const move = (index: number, offset: number) => {
+    setStaged(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
   };
 
+  const isReady = staged.length > 0 && staged.every(s => !s.isRendering);
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <div
@@ -52,8 +118,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
           type="file"
           ref={fileInputRef}
           className="hidden"
+          multiple
           accept=".pdf,.doc,.docx,.txt,image/*"
-          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          onChange={(e) => e.target.files && handleFiles(e.target.files)}
         />
 
         <div className="flex flex-col items-center justify-center space-y-4">
@@ -62,27 +129,91 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
           </div>
           <div className="text-center">
             <h3 className="text-lg font-semibold text-gray-800">
-              {previewFile ? previewFile.name : 'Upload Assignment'}
+              {staged.length > 0 ? 'Add more pages or files' : title}
             </h3>
             <p className="text-sm text-gray-500 mt-1">
-              Drag & drop your PDF, DOCX, or Image file here
+              Drag & drop PDFs, DOCX, or photos of each page here
             </p>
           </div>
-          {previewFile && (
+        </div>
+      </div>
+
+      {staged.length > 0 && (
+        <div className="mt-4 bg-white border rounded-2xl divide-y text-left">
+          {staged.map((s, index) => (
+            <div key={s.id} className="flex items-center gap-4 p-3">
+              <div className="flex flex-col">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-0.5 text-gray-400 hover:text-blue-600 disabled:opacity-20" title="Move up">
+                  <ChevronUp size={16} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === staged.length - 1} className="p-0.5 text-gray-400 hover:text-blue-600 disabled:opacity-20" title="Move down">
+                  <ChevronDown size={16} />
+                </button>
+              </div>
+              <span className="text-xs font-bold text-gray-300 w-5">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-gray-800 truncate">{s.data.name}</div>
+                <div className="text-xs text-gray-400">
+                  {s.data.pageCount ? `${s.data.pageCount} page${s.data.pageCount === 1 ? '' : 's'}` : s.data.type}
+                </div>
+                <div className="flex gap-2 mt-2 overflow-x-auto no-scrollbar">
+                  {s.isRendering && <Loader2 size={16} className="text-blue-500 animate-spin" />}
+                  {s.thumbnails.map((thumb, page) => (
+                    <div key={page} className="relative flex-shrink-0">
+                      <img src={thumb} alt={`${s.data.name} page ${page + 1}`} className="h-20 w-auto rounded border shadow-sm" />
+                      {s.thumbnails.length > 1 && (
+                        <span className="absolute bottom-1 right-1 bg-black/60 text-white text-[9px] font-bold px-1 rounded">{page + 1}</span>
+                      )}
+                    </div>
+                  ))}
+                  {!s.isRendering && s.thumbnails.length === 0 && (
+                    <div className="h-20 w-16 rounded border bg-slate-50 flex items-center justify-center text-gray-300">
+                      <FileText size={20} />
+                    </div>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => setStaged(prev => prev.filter(f => f.id !== s.id))}
+                className="p-1 hover:bg-gray-100 rounded-full self-start"
+                title="Remove"
+              >
+                <X size={18} className="text-gray-400" />
+              </button>
+            </div>
+          ))}
+          <div className="p-3 flex justify-end">
             <button
-              onClick={(e) => {
-                e.stopPropagation();
-                setPreviewFile(null);
-                if (fileInputRef.current) fileInputRef.current.value = '';
-              }}
-              className="absolute top-4 right-4 p-1 hover:bg-gray-100 rounded-full"
+              onClick={() => onFilesSelect(staged.map(s => s.data))}
+              disabled={disabled || !isReady}
+              className="bg-blue-600 text-white px-5 py-2 rounded-xl text-sm font-semibold hover:bg-blue-700 transition-all disabled:opacity-50 flex items-center gap-2"
             >
-              <X size={20} className="text-gray-400" />
+              <Sparkles size={16} /> {actionLabel} {staged.length} file{staged.length === 1 ? '' : 's'}
             </button>
-          )}
+          </div>
         </div>
+      )}
+
+      <div className="mt-4 flex justify-center">
+        <button
+          onClick={() => setIsCameraOpen(true)}
+          disabled={disabled}
+          className="flex items-center gap-2 px-4 py-2 bg-white border rounded-xl text-sm font-semibold text-gray-700 hover:border-blue-300 hover:text-blue-600 transition-all disabled:opacity-50"
+        >
+          <Camera size={16} /> Capture with camera
+        </button>
       </div>
-      
+
+      {isCameraOpen && (
+        <CameraCapture
+          onCapture={(files) => {
+            files.forEach(stage);
+            setIsCameraOpen(false);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+
       <div className="mt-4 flex items-center justify-center gap-6 text-xs text-gray-400">
         <div className="flex items-center gap-1"><FileText size={14} /> PDF</div>
         <div className="flex items-center gap-1"><FileText size={14} /> DOCX</div>
@@ -0,0 +1,109 @@
+
+import React, { useState } from 'react';
+import { X, Trash2, CheckCircle2, Layers } from 'lucide-react';
+import { Flashcard } from '../types';
+import { libraryService } from '../services/library';
+import { REVIEW_BUTTONS, ReviewQuality, scheduleReview } from '../services/flashcards';
+import { markdownToHtml } from '../services/markdown';
+import { renderMathHtml } from '../services/math';
+
+interface FlashcardReviewProps {
+  // Due cards, in review order
+  cards: Flashcard[];
+  onClose: () => void;
+}
+
+const QUALITY_STYLES: Record<number, string> = {
+  1: 'bg-red-50 text-red-600 border-red-100 hover:bg-red-100',
+  3: 'bg-amber-50 text-amber-700 border-amber-100 hover:bg-amber-100',
+  4: 'bg-green-50 text-green-700 border-green-100 hover:bg-green-100',
+  5: 'bg-blue-50 text-blue-700 border-blue-100 hover:bg-blue-100'
+};
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose }) => {
+  const [queue, setQueue] = useState<Flashcard[]>(cards);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const card = queue[0];
+
+  const answer = (quality: ReviewQuality) => {
+    const next = scheduleReview(card, quality);
+    libraryService.saveFlashcards([next]).catch(e => console.error("Failed to save flashcard", e));
+    setReviewed(r => r + 1);
+    setIsFlipped(false);
+    // Forgotten cards come back at the end of today's session
+    setQueue(prev => quality < 3 ? [...prev.slice(1), next] : prev.slice(1));
+  };
+
+  const remove = () => {
+    if (!window.confirm("Delete this flashcard?")) return;
+    libraryService.deleteFlashcard(card.id).catch(e => console.error("Failed to delete flashcard", e));
+    setIsFlipped(false);
+    setQueue(prev => prev.slice(1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-xl bg-white rounded-2xl shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-3">
+            <Layers size={18} className="text-blue-600" />
+            <h3 className="font-bold text-slate-900">Daily Review</h3>
+            <span className="text-xs text-slate-400">{queue.length} left · {reviewed} reviewed</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400"><X size={16} /></button>
+        </div>
+
+        {!card ? (
+          <div className="p-12 text-center space-y-3">
+            <CheckCircle2 size={40} className="mx-auto text-green-500" />
+            <div className="font-bold text-slate-900">All caught up</div>
+            <p className="text-sm text-slate-500">You reviewed {reviewed} card{reviewed === 1 ? '' : 's'}. Come back tomorrow for the next ones.</p>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span className="truncate">{card.assignmentTitle}</span>
+              <span className="flex items-center gap-3">
+                {card.kind === 'concept' ? 'Concept' : 'Problem'}
+                <button onClick={remove} className="text-slate-300 hover:text-red-500" title="Delete card"><Trash2 size={12} /></button>
+              </span>
+            </div>
+            <div
+              className="rich-content min-h-[6rem] text-lg text-slate-800 text-center flex flex-col justify-center"
+              dangerouslySetInnerHTML={{ __html: renderMathHtml(markdownToHtml(card.front)) }}
+            />
+            {isFlipped && (
+              <div
+                className="rich-content pt-6 border-t border-dashed text-slate-600 text-center"
+                dangerouslySetInnerHTML={{ __html: renderMathHtml(markdownToHtml(card.back)) }}
+              />
+            )}
+            {isFlipped ? (
+              <div className="grid grid-cols-4 gap-2">
+                {REVIEW_BUTTONS.map(b => (
+                  <button
+                    key={b.quality}
+                    onClick={() => answer(b.quality)}
+                    className={`py-2.5 rounded-xl border text-sm font-bold transition-colors ${QUALITY_STYLES[b.quality]}`}
+                  >
+                    {b.label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsFlipped(true)}
+                className="w-full py-3 bg-gray-900 text-white rounded-xl text-sm font-semibold hover:bg-black transition-colors"
+              >
+                Show answer
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
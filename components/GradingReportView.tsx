@@ -0,0 +1,210 @@
+
+import React, { useState } from 'react';
+import { FileDown, ChevronDown, Loader2, AlertTriangle, MessageSquare, ClipboardCheck } from 'lucide-react';
+import { GradedAnswer, GradingReport, InlineComment } from '../types';
+import { answerScore, formatPoints, reportScore, reportToDocument } from '../services/grading';
+import { EXPORT_FORMATS, ExportFormat, downloadExport } from '../services/export/formats';
+import { FontEmbedError } from '../services/export/pdf';
+import { markdownToHtml } from '../services/markdown';
+import { renderMathHtml } from '../services/math';
+
+interface GradingReportViewProps {
+  report: GradingReport;
+  onChange: (report: GradingReport) => void;
+}
+
+// Wraps the first occurrence of each excerpt in a numbered <mark>; excerpts split across formatting are left unmarked
+const highlightExcerpts = (html: string, comments: InlineComment[]): string => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  comments.forEach((c, i) => {
+    const excerpt = c.excerpt.trim();
+    if (!excerpt) return;
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+      const index = node.data.indexOf(excerpt);
+      if (index === -1 || node.parentElement?.closest('mark')) continue;
+      const match = node.splitText(index);
+      match.splitText(excerpt.length);
+      const mark = document.createElement('mark');
+      mark.className = 'bg-amber-100 rounded px-0.5';
+      mark.title = c.comment;
+      match.replaceWith(mark);
+      mark.appendChild(match);
+      const label = document.createElement('sup');
+      label.className = 'text-amber-600 font-bold ml-0.5';
+      label.textContent = String(i + 1);
+      mark.after(label);
+      break;
+    }
+  });
+  return container.innerHTML;
+};
+
+const Rich: React.FC<{ html: string; className?: string }> = ({ html, className = '' }) => (
+  <div className={`rich-content ${className}`} dangerouslySetInnerHTML={{ __html: renderMathHtml(html) }} />
+);
+
+const GradingReportView: React.FC<GradingReportViewProps> = ({ report, onChange }) => {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const total = reportScore(report);
+
+  const handleExport = async (format: ExportFormat) => {
+    const { label } = EXPORT_FORMATS.find(f => f.format === format)!;
+    setIsExportMenuOpen(false);
+    setExportingFormat(format);
+    try {
+      await downloadExport(reportToDocument(report), format);
+    } catch (err) {
+      console.error(`${label} export failed`, err);
+      window.alert(err instanceof FontEmbedError ? err.message : `${label} export failed. Please try again.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // TAs can override the awarded points; the totals follow
+  const setAwarded = (questionId: string, criterion: number, value: number) => {
+    onChange({
+      ...report,
+      answers: report.answers.map(a => a.questionId !== questionId ? a : {
+        ...a,
+        rubric: a.rubric.map((c, i) => i === criterion ? { ...c, awarded: Math.min(c.points, Math.max(0, value || 0)) } : c)
+      })
+    });
+  };
+
+  const answerFor = (questionId: string): GradedAnswer | undefined => report.answers.find(a => a.questionId === questionId);
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-2xl border shadow-sm">
+      <div className="flex items-center justify-between gap-4 px-8 py-6 border-b">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-blue-600">
+            <ClipboardCheck size={14} /> Feedback Report
+          </div>
+          <Rich html={markdownToHtml(report.title, true)} className="text-2xl font-black text-slate-900 mt-1" />
+          {report.studentName && <div className="text-sm text-slate-500">{report.studentName}</div>}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <div className="text-3xl font-black text-slate-900">{formatPoints(total.awarded)}<span className="text-slate-300"> / {formatPoints(total.points)}</span></div>
+            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+              {report.rubricSource === 'supplied' ? 'Supplied marking scheme' : 'Generated rubric'}
+            </div>
+          </div>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportMenuOpen(o => !o)}
+              disabled={!!exportingFormat}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-semibold hover:bg-black transition-colors disabled:opacity-50"
+            >
+              {exportingFormat ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />} Export <ChevronDown size={12} />
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute top-full right-0 mt-2 w-56 bg-white border border-slate-200 rounded-xl shadow-2xl p-2 z-50">
+                {EXPORT_FORMATS.map(f => (
+                  <button
+                    key={f.format}
+                    onClick={() => handleExport(f.format)}
+                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 text-[11px] font-semibold text-slate-700"
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="divide-y">
+        {report.questions.map((q, index) => {
+          const answer = answerFor(q.id);
+          const score = answer ? answerScore(answer) : null;
+          return (
+            <div key={q.id} className="px-8 py-8 space-y-5">
+              <div className="flex items-start gap-4">
+                <span className="font-black text-slate-300 text-xl min-w-[2.5rem]">{String(index + 1).padStart(2, '0')}</span>
+                <Rich html={markdownToHtml(q.question_text)} className="flex-1 font-bold text-slate-800" />
+                {score && !answer?.error && (
+                  <span className="px-3 py-1 rounded-full bg-slate-100 text-sm font-bold text-slate-700 whitespace-nowrap">
+                    {formatPoints(score.awarded)} / {formatPoints(score.points)}
+                  </span>
+                )}
+              </div>
+
+              {!answer && <div className="text-sm text-slate-400">Waiting to be graded...</div>}
+
+              {answer?.error && (
+                <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-600">
+                  <AlertTriangle size={16} /> {answer.error}
+                </div>
+              )}
+
+              {answer && !answer.error && (
+                <>
+                  <div className="p-5 bg-slate-50 rounded-xl border border-slate-100">
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Student answer</div>
+                    {answer.answer
+                      ? <Rich html={highlightExcerpts(markdownToHtml(answer.answer), answer.comments)} className="text-sm text-slate-700" />
+                      : <div className="text-sm italic text-slate-400">No answer submitted.</div>}
+                  </div>
+
+                  {answer.comments.length > 0 && (
+                    <ol className="space-y-1.5">
+                      {answer.comments.map((c, i) => (
+                        <li key={i} className="flex items-start gap-2 text-sm">
+                          <span className="flex items-center gap-1 text-amber-600 font-bold text-xs mt-0.5"><MessageSquare size={12} />{i + 1}</span>
+                          <span className="text-slate-400 italic">"{c.excerpt}"</span>
+                          <span className="text-slate-700">{c.comment}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  {answer.rubric.length > 0 && (
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-slate-100">
+                        {answer.rubric.map((c, i) => (
+                          <tr key={i}>
+                            <td className="py-2 pr-4 align-top">
+                              <div className="font-semibold text-slate-700">{c.description}</div>
+                              {c.comment && <div className="text-xs text-slate-400">{c.comment}</div>}
+                            </td>
+                            <td className="py-2 w-32 text-right align-top whitespace-nowrap">
+                              <input
+                                type="number"
+                                min={0}
+                                max={c.points}
+                                step={0.5}
+                                value={c.awarded}
+                                onChange={(e) => setAwarded(q.id, i, parseFloat(e.target.value))}
+                                className="w-16 px-2 py-1 text-right border border-slate-200 rounded-md font-bold"
+                              />
+                              <span className="text-slate-400"> / {formatPoints(c.points)}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {answer.feedback && (
+                    <div className="p-5 bg-blue-50/60 rounded-xl border border-blue-100">
+                      <div className="text-[10px] font-black uppercase tracking-widest text-blue-600 mb-2">Feedback</div>
+                      <Rich html={markdownToHtml(answer.feedback)} className="text-sm text-slate-700" />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GradingReportView;
@@ -0,0 +1,70 @@
+
+import React, { useState } from 'react';
+import { FileText, ChevronLeft, ClipboardCheck } from 'lucide-react';
+import { FileData } from '../types';
+import FileUpload from './FileUpload';
+
+export interface GradingRequest {
+  paper: FileData[];
+  submission: FileData[];
+  studentName: string;
+  rubric: string;
+}
+
+interface GradingSetupProps {
+  onStart: (request: GradingRequest) => void;
+}
+
+// Grading mode input: the question paper first, then the student's submission and an optional marking scheme
+const GradingSetup: React.FC<GradingSetupProps> = ({ onStart }) => {
+  const [paper, setPaper] = useState<FileData[] | null>(null);
+  const [studentName, setStudentName] = useState('');
+  const [rubric, setRubric] = useState('');
+
+  if (!paper) {
+    return <FileUpload onFilesSelect={setPaper} title="Upload Question Paper" actionLabel="Use" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="w-full max-w-2xl mx-auto flex items-center gap-3 p-3 bg-white border rounded-2xl text-left">
+        <button onClick={() => setPaper(null)} className="p-1 hover:bg-gray-100 rounded-full text-gray-400" title="Change question paper">
+          <ChevronLeft size={18} />
+        </button>
+        <FileText size={18} className="text-blue-600" />
+        <div className="flex-1 min-w-0">
+          <div className="text-xs font-bold uppercase tracking-widest text-gray-400">Question paper</div>
+          <div className="text-sm font-semibold text-gray-800 truncate">{paper.map(f => f.name).join(', ')}</div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-2xl mx-auto grid grid-cols-1 gap-4 text-left">
+        <input
+          value={studentName}
+          onChange={(e) => setStudentName(e.target.value)}
+          placeholder="Student name (optional)"
+          className="w-full px-4 py-3 bg-white border rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
+        />
+        <textarea
+          value={rubric}
+          onChange={(e) => setRubric(e.target.value)}
+          rows={5}
+          placeholder="Marking scheme (optional). Paste criteria and points per question, or leave empty to generate a rubric for each question."
+          className="w-full px-4 py-3 bg-white border rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
+        />
+      </div>
+
+      <FileUpload
+        onFilesSelect={(submission) => onStart({ paper, submission, studentName: studentName.trim(), rubric: rubric.trim() })}
+        title="Upload Student Submission"
+        actionLabel="Grade"
+      />
+
+      <p className="flex items-center justify-center gap-2 text-xs text-gray-400">
+        <ClipboardCheck size={14} /> Answers are matched to the questions automatically, even when they are out of order.
+      </p>
+    </div>
+  );
+};
+
+export default GradingSetup;
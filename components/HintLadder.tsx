@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { Lightbulb, Loader2, Eye, ChevronRight } from 'lucide-react';
+import { Question } from '../types';
+import { isSolutionRevealed, revealedHints } from '../services/learning';
+import { markdownToHtml } from '../services/markdown';
+import { renderMathHtml } from '../services/math';
+
+interface HintLadderProps {
+  question: Question;
+  isLoading: boolean;
+  onNextHint: () => void;
+  onRevealSolution: () => void;
+  onHide: () => void;
+}
+
+const HintLadder: React.FC<HintLadderProps> = ({
+  question, isLoading, onNextHint, onRevealSolution, onHide
+}) => {
+  const hints = revealedHints(question);
+  const total = question.hints?.length || 0;
+  const isRevealed = isSolutionRevealed(question);
+  const hasMoreHints = !question.hints || hints.length < total;
+
+  return (
+    <div className="space-y-3 no-print">
+      {hints.map((hint, i) => (
+        <div key={i} className="p-4 bg-amber-50/60 border border-amber-100 rounded-xl">
+          <div className="text-[10px] font-black uppercase tracking-widest text-amber-600 mb-1 flex items-center gap-1.5">
+            <Lightbulb size={11} /> Hint {i + 1}{total ? ` of ${total}` : ''}
+          </div>
+          <div
+            className="rich-content text-[13px] leading-relaxed text-slate-700"
+            dangerouslySetInnerHTML={{ __html: renderMathHtml(markdownToHtml(hint)) }}
+          />
+        </div>
+      ))}
+
+      {isRevealed ? (
+        <button onClick={onHide} className="text-[10px] font-bold uppercase tracking-widest text-slate-300 hover:text-amber-600 transition-colors">
+          Hide solution again
+        </button>
+      ) : (
+        <div className="flex items-center gap-3">
+          {hasMoreHints && (
+            <button
+              onClick={onNextHint}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-xl text-[11px] font-bold hover:bg-amber-600 transition-colors disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 size={12} className="animate-spin" /> : <Lightbulb size={12} />}
+              {isLoading ? 'Preparing hints' : hints.length === 0 ? 'Get a hint' : 'Next hint'}
+              {!isLoading && hints.length > 0 && <ChevronRight size={12} />}
+            </button>
+          )}
+          <button
+            onClick={onRevealSolution}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-200 text-slate-500 rounded-xl text-[11px] font-bold hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Eye size={12} /> Show full solution
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HintLadder;
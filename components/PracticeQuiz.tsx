@@ -0,0 +1,313 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Target, ChevronLeft, Check, RotateCcw, Trash2 } from 'lucide-react';
+import { AssignmentResult, PracticeAttempt, PracticeFormat, PracticeGrade, PracticeSet } from '../types';
+import { libraryService } from '../services/library';
+import { createPracticeSet, defaultPracticeFormats, gradeAttempt, PRACTICE_FORMAT_LABELS } from '../services/practice';
+import { markdownToHtml, markdownToText } from '../services/markdown';
+import { renderMathHtml } from '../services/math';
+
+interface PracticeQuizProps {
+  assignmentId: string;
+  result: AssignmentResult;
+  onClose: () => void;
+}
+
+const QUESTION_COUNTS = [3, 5, 8];
+
+const Rich: React.FC<{ value: string; inline?: boolean; className?: string }> = ({ value, inline = false, className = '' }) => (
+  <div className={`rich-content ${className}`} dangerouslySetInnerHTML={{ __html: renderMathHtml(markdownToHtml(value, inline)) }} />
+);
+
+const scoreColor = (score: number) =>
+  score >= 0.8 ? 'text-green-600 bg-green-50 border-green-100' : score >= 0.5 ? 'text-amber-600 bg-amber-50 border-amber-100' : 'text-red-600 bg-red-50 border-red-100';
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+// Coding questions start from their starter code
+const initialAnswers = (set: PracticeSet): Record<string, string> =>
+  Object.fromEntries(set.questions.filter(q => q.format === 'coding').map(q => [q.id, q.starter_code || '']));
+
+const PracticeQuiz: React.FC<PracticeQuizProps> = ({ assignmentId, result, onClose }) => {
+  const [sets, setSets] = useState<PracticeSet[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [activeSetId, setActiveSetId] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [attempt, setAttempt] = useState<PracticeAttempt | null>(null);
+  const [count, setCount] = useState(5);
+  const [formats, setFormats] = useState<PracticeFormat[]>(() => defaultPracticeFormats(result));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    libraryService.getPractice(assignmentId)
+      .catch(e => {
+        console.error("Failed to load practice sets", e);
+        return [];
+      })
+      .then(saved => {
+        if (cancelled) return;
+        setSets(saved);
+        setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, [assignmentId]);
+
+  const persist = (next: PracticeSet[]) => {
+    setSets(next);
+    libraryService.savePractice(assignmentId, next).catch(e => console.error("Failed to save practice sets", e));
+  };
+
+  const activeSet = sets.find(s => s.id === activeSetId) || null;
+
+  const openSet = (set: PracticeSet) => {
+    setActiveSetId(set.id);
+    setAnswers(initialAnswers(set));
+    setAttempt(null);
+  };
+
+  const generate = async () => {
+    if (formats.length === 0 || isGenerating) return;
+    setIsGenerating(true);
+    try {
+      const set = await createPracticeSet(result, count, formats);
+      persist([set, ...sets]);
+      openSet(set);
+    } catch (err) {
+      console.error("Generating practice set failed", err);
+      window.alert("Could not generate a practice set. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!activeSet || isGrading) return;
+    setIsGrading(true);
+    try {
+      const graded = await gradeAttempt(activeSet, answers);
+      setAttempt(graded);
+      persist(sets.map(s => s.id === activeSet.id ? { ...s, attempts: [...s.attempts, graded] } : s));
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const deleteSet = (id: string) => {
+    if (window.confirm("Delete this practice set and its results?")) {
+      persist(sets.filter(s => s.id !== id));
+    }
+  };
+
+  const toggleFormat = (format: PracticeFormat) => {
+    setFormats(prev => prev.includes(format) ? prev.filter(f => f !== format) : [...prev, format]);
+  };
+
+  const gradeFor = (questionId: string): PracticeGrade | undefined =>
+    attempt?.grades.find(g => g.questionId === questionId);
+
+  const setAnswer = (questionId: string, value: string) => {
+    if (!attempt) setAnswers(prev => ({ ...prev, [questionId]: value }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full overflow-hidden bg-white rounded-2xl shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-3">
+            {activeSet && (
+              <button onClick={() => setActiveSetId(null)} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400" title="All practice sets">
+                <ChevronLeft size={16} />
+              </button>
+            )}
+            <Target size={18} className="text-blue-600" />
+            <h3 className="font-bold text-slate-900">Practice</h3>
+            <span className="text-xs text-slate-400 truncate max-w-xs">{markdownToText(result.title)}</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {!activeSet && (
+            <div className="space-y-8">
+              <div className="p-5 bg-slate-50 rounded-xl border border-slate-100 space-y-4">
+                <div className="text-sm font-semibold text-slate-700">Generate a practice set</div>
+                <div className="flex flex-wrap items-center gap-6 text-sm text-slate-600">
+                  <label className="flex items-center gap-2">
+                    Questions
+                    <select value={count} onChange={(e) => setCount(Number(e.target.value))} className="bg-white border border-slate-200 rounded-md px-2 py-1 text-sm">
+                      {QUESTION_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                  {(Object.keys(PRACTICE_FORMAT_LABELS) as PracticeFormat[]).map(format => (
+                    <label key={format} className="flex items-center gap-2 cursor-pointer select-none">
+                      <input type="checkbox" checked={formats.includes(format)} onChange={() => toggleFormat(format)} className="rounded border-gray-300 text-blue-600" />
+                      {PRACTICE_FORMAT_LABELS[format]}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={generate}
+                  disabled={isGenerating || formats.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Target size={14} />}
+                  {isGenerating ? 'Writing questions...' : 'Generate practice set'}
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Saved sets</div>
+                {!isLoaded && <Loader2 size={16} className="animate-spin text-slate-300" />}
+                {isLoaded && sets.length === 0 && <div className="text-sm text-slate-400">No practice sets yet.</div>}
+                {sets.map(set => {
+                  const best = set.attempts.length ? Math.max(...set.attempts.map(a => a.score)) : null;
+                  return (
+                    <div key={set.id} className="group flex items-center gap-4 p-3 rounded-xl border border-slate-100 hover:border-blue-200 cursor-pointer" onClick={() => openSet(set)}>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-semibold text-slate-700">{set.questions.length} questions</div>
+                        <div className="text-xs text-slate-400">
+                          {new Date(set.createdAt).toLocaleString()} · {set.attempts.length} attempt{set.attempts.length === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                      {best !== null && (
+                        <span className={`px-2.5 py-1 rounded-full border text-xs font-bold ${scoreColor(best)}`}>Best {percent(best)}</span>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteSet(set.id);
+                        }}
+                        className="opacity-0 group-hover:opacity-100 p-1.5 text-slate-300 hover:text-red-500"
+                        title="Delete practice set"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {activeSet && (
+            <div className="space-y-8">
+              {attempt && (
+                <div className={`flex items-center justify-between p-4 rounded-xl border ${scoreColor(attempt.score)}`}>
+                  <span className="text-sm font-bold">Score: {percent(attempt.score)}</span>
+                  <button
+                    onClick={() => {
+                      setAttempt(null);
+                      setAnswers(initialAnswers(activeSet));
+                    }}
+                    className="flex items-center gap-1.5 text-xs font-bold hover:underline"
+                  >
+                    <RotateCcw size={12} /> Try again
+                  </button>
+                </div>
+              )}
+
+              {activeSet.questions.map((q, i) => {
+                const grade = gradeFor(q.id);
+                return (
+                  <div key={q.id} className="space-y-3">
+                    <div className="flex items-start gap-3">
+                      <span className="text-xs font-black text-slate-300 mt-1">{i + 1}</span>
+                      <div className="flex-1 space-y-3">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{PRACTICE_FORMAT_LABELS[q.format]}</div>
+                        <Rich value={q.prompt} className="text-sm text-slate-800" />
+
+                        {q.format === 'multiple_choice' && (
+                          <div className="space-y-2">
+                            {q.choices?.map((choice, c) => {
+                              const selected = answers[q.id] === String(c);
+                              const isKey = !!attempt && c === q.correct_choice;
+                              return (
+                                <label
+                                  key={c}
+                                  className={`flex items-center gap-3 p-3 rounded-lg border text-sm cursor-pointer ${
+                                    isKey ? 'border-green-200 bg-green-50' : selected ? 'border-blue-200 bg-blue-50' : 'border-slate-100 hover:bg-slate-50'
+                                  }`}
+                                >
+                                  <input type="radio" name={q.id} checked={selected} onChange={() => setAnswer(q.id, String(c))} disabled={!!attempt} />
+                                  <Rich value={choice} inline className="flex-1" />
+                                  {isKey && <Check size={14} className="text-green-600" />}
+                                </label>
+                              );
+                            })}
+                          </div>
+                        )}
+
+                        {q.format === 'short_answer' && (
+                          <textarea
+                            value={answers[q.id] || ''}
+                            onChange={(e) => setAnswer(q.id, e.target.value)}
+                            readOnly={!!attempt}
+                            rows={4}
+                            placeholder="Your answer..."
+                            className="w-full p-3 text-sm border border-slate-200 rounded-lg focus:ring-1 focus:ring-blue-200 focus:outline-none"
+                          />
+                        )}
+
+                        {q.format === 'coding' && (
+                          <textarea
+                            value={answers[q.id] || ''}
+                            onChange={(e) => setAnswer(q.id, e.target.value)}
+                            readOnly={!!attempt}
+                            rows={8}
+                            spellCheck={false}
+                            className="w-full p-4 font-mono text-[12px] text-blue-300 bg-[#0f172a] rounded-lg border-none focus:ring-0"
+                          />
+                        )}
+
+                        {grade && (
+                          <div className={`p-3 rounded-lg border text-sm space-y-2 ${scoreColor(grade.score)}`}>
+                            <div className="font-bold">{percent(grade.score)}</div>
+                            <Rich value={grade.feedback} className="text-slate-700" />
+                            {grade.tests && grade.tests.length > 0 && (
+                              <ul className="space-y-1 text-xs">
+                                {grade.tests.map(t => (
+                                  <li key={t.name} className="flex items-start gap-2">
+                                    {t.passed ? <Check size={12} className="text-green-600 mt-0.5" /> : <X size={12} className="text-red-500 mt-0.5" />}
+                                    <span className="font-mono">{t.name}</span>
+                                    {t.detail && <span className="text-slate-500">{t.detail}</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {q.format === 'short_answer' && q.model_answer && (
+                              <div className="pt-2 border-t border-current/10 text-slate-600">
+                                <div className="text-[10px] font-black uppercase tracking-widest mb-1">Model answer</div>
+                                <Rich value={q.model_answer} />
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {activeSet && !attempt && (
+          <div className="px-6 py-4 border-t flex justify-end">
+            <button
+              onClick={submit}
+              disabled={isGrading}
+              className="flex items-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-xl text-sm font-semibold hover:bg-black transition-colors disabled:opacity-50"
+            >
+              {isGrading && <Loader2 size={14} className="animate-spin" />}
+              {isGrading ? 'Grading...' : 'Submit answers'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeQuiz;
@@ -0,0 +1,27 @@
+
+import React from 'react';
+import { CollabPeer } from '../services/collab/protocol';
+
+interface PresenceCursorsProps {
+  // Collaborators whose focus is in this block
+  peers: CollabPeer[];
+}
+
+// Marks a document block with the colours and names of the collaborators working in it
+const PresenceCursors: React.FC<PresenceCursorsProps> = ({ peers }) => {
+  if (peers.length === 0) return null;
+  return (
+    <>
+      <div className="absolute -left-3 top-0 bottom-0 w-0.5 rounded-full no-print" style={{ backgroundColor: peers[0].color }} />
+      <div className="absolute -top-6 right-0 flex gap-1 no-print">
+        {peers.map(peer => (
+          <span key={peer.clientId} className="px-2 py-0.5 rounded-full text-[10px] font-bold text-white" style={{ backgroundColor: peer.color }}>
+            {peer.name}
+          </span>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default PresenceCursors;
@@ -0,0 +1,70 @@
+
+import React, { useState } from 'react';
+import { Wand2, Loader2, ChevronDown } from 'lucide-react';
+import { GUIDANCE_PRESETS } from '../services/variants';
+
+interface RegenerateMenuProps {
+  isRegenerating: boolean;
+  onRegenerate: (label: string, guidance: string) => void;
+}
+
+const RegenerateMenu: React.FC<RegenerateMenuProps> = ({ isRegenerating, onRegenerate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+
+  const choose = (label: string, guidance: string) => {
+    setIsOpen(false);
+    setCustom('');
+    onRegenerate(label, guidance);
+  };
+
+  return (
+    <div className="relative no-print">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isRegenerating}
+        className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-purple-600 transition-colors disabled:opacity-50"
+      >
+        {isRegenerating ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+        {isRegenerating ? 'Regenerating' : 'Regenerate'}
+        {!isRegenerating && <ChevronDown size={10} />}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-white border border-slate-200 rounded-xl shadow-2xl p-2 z-50">
+          <button
+            onClick={() => choose('Regenerated', '')}
+            className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 text-[11px] font-semibold text-slate-700"
+          >
+            Another attempt
+          </button>
+          {GUIDANCE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => choose(preset.label, preset.guidance)}
+              className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 text-[11px] font-semibold text-slate-700"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const guidance = custom.trim();
+              if (guidance) choose(guidance.length > 32 ? `${guidance.slice(0, 32)}…` : guidance, guidance);
+            }}
+            className="mt-1 pt-2 border-t border-slate-100"
+          >
+            <input
+              value={custom}
+              onChange={(e) => setCustom(e.target.value)}
+              placeholder="Or describe what to change..."
+              className="w-full px-3 py-2 text-[11px] bg-slate-50 rounded-lg border-none focus:ring-1 focus:ring-purple-200"
+            />
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegenerateMenu;
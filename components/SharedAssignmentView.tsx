@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import { Eye, GitFork, Loader2, FileDown, Terminal, PenTool, Wand2 } from 'lucide-react';
+import { AssignmentResult } from '../types';
+import { isSolutionHidden } from '../services/learning';
+import { markdownToHtml } from '../services/markdown';
+import { renderMathHtml } from '../services/math';
+import { downloadExport } from '../services/export/formats';
+
+interface SharedAssignmentViewProps {
+  result: AssignmentResult;
+  // Saves an editable copy to the library and opens it
+  onFork: () => Promise<void>;
+  onClose: () => void;
+}
+
+const Rich: React.FC<{ markdown: string; inline?: boolean; className?: string }> = ({ markdown, inline = false, className = '' }) => (
+  <div className={`rich-content ${className}`} dangerouslySetInnerHTML={{ __html: renderMathHtml(markdownToHtml(markdown, inline)) }} />
+);
+
+// Read-only rendering of an assignment opened from a share link or .aceassign file
+const SharedAssignmentView: React.FC<SharedAssignmentViewProps> = ({ result, onFork, onClose }) => {
+  const [isForking, setIsForking] = useState(false);
+
+  const fork = async () => {
+    setIsForking(true);
+    try {
+      await onFork();
+    } catch (err) {
+      console.error("Failed to copy shared assignment", err);
+      window.alert("Could not save a copy to your library. Please try again.");
+      setIsForking(false);
+    }
+  };
+
+  const download = () => downloadExport(result, 'aceassign').catch(err => {
+    console.error("Bundle download failed", err);
+    window.alert("Could not download the file. Please try again.");
+  });
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 px-6 py-4 bg-blue-50 border border-blue-100 rounded-2xl">
+        <div className="flex items-center gap-3 text-sm text-blue-900">
+          <Eye size={18} className="text-blue-600 flex-shrink-0" />
+          <span><strong>Shared with you, read-only.</strong> Make a copy to edit it, run code or ask the tutor.</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={download} className="p-2 hover:bg-blue-100 text-blue-600 rounded-lg" title="Download .aceassign file">
+            <FileDown size={16} />
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-gray-500 hover:text-gray-900">
+            Close
+          </button>
+          <button
+            onClick={fork}
+            disabled={isForking}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isForking ? <Loader2 size={16} className="animate-spin" /> : <GitFork size={16} />} Make an editable copy
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-sm ring-1 ring-slate-200/50 shadow-[0_30px_90px_-20px_rgba(0,0,0,0.12)] p-[2.54cm]">
+        <div className="mb-16 pb-12 border-b-2 border-slate-100 text-center">
+          <Rich markdown={result.title} inline className="text-[1.5em] font-black tracking-tight text-slate-900" />
+        </div>
+
+        <div className="space-y-16">
+          {result.questions.map((q, index) => (
+            <div key={q.id} className="flex gap-6">
+              <span className="font-black text-slate-300 text-2xl flex-shrink-0 min-w-[3rem] mt-1">{String(index + 1).padStart(2, '0')}</span>
+              <div className="flex-1 min-w-0 space-y-6">
+                <Rich markdown={q.question_text} className="font-bold text-xl leading-snug text-slate-800" />
+
+                {q.error && <p className="text-sm text-slate-400 italic">This question has not been solved.</p>}
+                {isSolutionHidden(result, q) && (
+                  <p className="text-sm text-slate-400 italic">The solution is hidden in learning mode. Make a copy to work through the hints.</p>
+                )}
+
+                {!q.error && !isSolutionHidden(result, q) && (
+                  <>
+                    {q.explanation && (
+                      <div className="space-y-4">
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-600 flex items-center gap-2">
+                          <PenTool size={12} /> Analytical Exposition
+                        </h4>
+                        <Rich markdown={q.explanation} className="text-[14px] leading-relaxed text-slate-600" />
+                      </div>
+                    )}
+
+                    {q.code !== undefined && (
+                      <div className="space-y-3">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-blue-600 px-1">{q.language || 'Plain Text'}</div>
+                        <pre className="font-mono text-[12px] text-blue-300 p-8 leading-relaxed bg-[#0f172a] rounded-2xl overflow-x-auto">{q.code}</pre>
+                        {q.execution_output && (
+                          <div className="bg-[#020617] rounded-2xl border border-slate-800 overflow-hidden">
+                            <div className="flex items-center gap-2 px-6 py-3 border-b border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                              <Terminal size={12} /> Output
+                            </div>
+                            <pre className="font-mono text-[12px] leading-relaxed p-6 whitespace-pre-wrap break-words text-slate-200">{q.execution_output}</pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {q.solution && !q.code && (
+                      <div className="bg-blue-600 p-8 rounded-[2rem] text-white relative overflow-hidden">
+                        <div className="absolute top-0 right-0 p-8 opacity-10"><Wand2 size={80} /></div>
+                        <h4 className="text-[11px] font-black uppercase tracking-[0.3em] mb-4 opacity-70">Synthesized Result</h4>
+                        <Rich markdown={q.solution} className="text-lg font-bold leading-relaxed italic" />
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {q.assets?.map(asset => (
+                  <figure key={asset.id} className="rounded-xl overflow-hidden border border-slate-100 bg-slate-50">
+                    <img src={asset.url} alt={asset.caption} className="w-full h-auto" />
+                    {asset.caption && <figcaption className="px-4 py-2 text-xs text-slate-400">{asset.caption}</figcaption>}
+                  </figure>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedAssignmentView;
@@ -6,42 +6,114 @@ import {
   Underline, AlignLeft, AlignCenter, AlignRight, List, 
   ChevronDown, Maximize2, MoreVertical, Printer, Share2,
   Image as ImageIcon, Plus, Trash2, Highlighter, Palette,
-  RotateCcw, Sparkles, Wand2, Type
+  RotateCcw, RotateCw, History, Sparkles, Wand2, Type, Play, Loader2, User, FileText, Sigma, AlertTriangle, GraduationCap, Target, Layers, Lock, LogOut, Link2, Languages
 } from 'lucide-react';
-import { AssignmentResult, Question, QuestionAsset } from '../types';
+import { AssignmentResult, FileData, Question, QuestionAsset } from '../types';
+import { executeQuestionCode } from '../services/execution';
+import { solvePendingQuestion, executeSolvedCode, needsExecution, regenerateSolution } from '../services/pipeline';
+import { addVariant, selectVariant, removeVariant } from '../services/variants';
+import { verifyQuestion } from '../services/verification';
+import { isSolutionHidden } from '../services/learning';
+import { aiService } from '../services/ai';
+import { libraryService } from '../services/library';
+import { createFlashcards } from '../services/flashcards';
+import { formatExecutionOutput } from '../services/sandbox';
+import { EXPORT_FORMATS, ExportFormat, downloadExport } from '../services/export/formats';
+import { FontEmbedError } from '../services/export/pdf';
+import { useAssignmentHistory } from '../hooks/useAssignmentHistory';
+import { Collaboration } from '../hooks/useCollaboration';
+import { inviteLink } from '../services/collab/session';
+import { BundleError, createShareLink } from '../services/share';
+import {
+  DocumentSelection, REFINE_ACTIONS, RefineAction, RefineField, fieldValue, isInlineField, replaceSelection,
+  selectionLabel, selectionRange, splitAtSelection, translateAction
+} from '../services/refine';
 import AITutorChat from './AITutorChat';
+import EditableBlock from './EditableBlock';
+import RegenerateMenu from './RegenerateMenu';
+import VariantSwitcher from './VariantSwitcher';
+import VerificationBadge from './VerificationBadge';
+import HintLadder from './HintLadder';
+import PracticeQuiz from './PracticeQuiz';
+import PresenceCursors from './PresenceCursors';
 
 type Theme = 'standard' | 'academic' | 'modern' | 'manuscript';
 
+const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('');
+
 interface SolutionDisplayProps {
+  assignmentId: string;
   result: AssignmentResult;
   setResult: React.Dispatch<React.SetStateAction<AssignmentResult | null>>;
+  files?: FileData[];
+  collab?: Collaboration;
 }
 
-const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult }) => {
+const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ assignmentId, result, setResult, files = [], collab }) => {
   const [theme, setTheme] = useState<Theme>('standard');
   const [fontFamily, setFontFamily] = useState('Inter');
   const [fontSize, setFontSize] = useState('11pt');
+  const [showMathSource, setShowMathSource] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [selectionBox, setSelectionBox] = useState<{ top: number, left: number } | null>(null);
   const [isAITutorOpen, setIsAITutorOpen] = useState(false);
   const [collabActive, setCollabActive] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [retryingIds, setRetryingIds] = useState<string[]>([]);
+  const [regeneratingIds, setRegeneratingIds] = useState<string[]>([]);
+  const [verifyingIds, setVerifyingIds] = useState<string[]>([]);
+  const [hintLoadingIds, setHintLoadingIds] = useState<string[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isPracticeOpen, setIsPracticeOpen] = useState(false);
+  const [isMakingFlashcards, setIsMakingFlashcards] = useState(false);
+  const [flashcardsAdded, setFlashcardsAdded] = useState<number | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [shareLinkCopied, setShareLinkCopied] = useState(false);
+  const [refiningAction, setRefiningAction] = useState<string | null>(null);
+  // Selection handed to the tutor with "Ask AI"; sent along with the next message
+  const [tutorSelection, setTutorSelection] = useState<DocumentSelection | null>(null);
+  const history = useAssignmentHistory(result, setResult);
+  const collabSnapshot = collab?.room === assignmentId ? collab.snapshot : null;
+  // Questions a collaborator's AI tutor is editing are read-only here until it finishes
+  const lockOwner = (questionId: string) => collabSnapshot ? collab?.lockOwner(questionId) : undefined;
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Last text selected in the document; it outlives the click into the tutor chat
+  const selectionRef = useRef<DocumentSelection | null>(null);
+  // The selection handler is registered once; it maps selections against the latest document
+  const resultRef = useRef(result);
+  resultRef.current = result;
 
   // Handle Selection Toolbar
   useEffect(() => {
-    const handleSelectionChange = () => {
+    const handleSelectionChange = (e: MouseEvent) => {
       const selection = window.getSelection();
+      const elementOf = (node: Node | null) => node instanceof Element ? node : node?.parentElement;
       if (selection && selection.toString().trim().length > 0) {
         const range = selection.getRangeAt(0);
         const rect = range.getBoundingClientRect();
         setSelectionBox({
           top: rect.top + window.scrollY - 50,
-          left: rect.left + window.scrollX + (rect.width / 2) - 100
+          left: rect.left + window.scrollX + (rect.width / 2)
         });
+        const element = elementOf(range.commonAncestorContainer);
+        if (element?.closest('#document-paper')) {
+          const questionId = element.closest('[data-question-id]')?.getAttribute('data-question-id') || undefined;
+          // Selections within one field keep their place in its Markdown, so AI rewrites replace just that span
+          const block = element.closest('[data-field]');
+          const field = block?.getAttribute('data-field') as RefineField | undefined;
+          const value = field && fieldValue(resultRef.current, { text: '', questionId, field });
+          const textRange = block && field && value !== undefined ? selectionRange(block, range, value, isInlineField(field)) : null;
+          selectionRef.current = {
+            text: textRange?.text.trim() || selection.toString().trim(),
+            questionId,
+            ...(textRange && { field, range: textRange })
+          };
+        }
       } else {
         setSelectionBox(null);
+        if (elementOf(e.target as Node)?.closest('#document-paper')) selectionRef.current = null;
       }
     };
 
@@ -49,14 +121,21 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
     return () => document.removeEventListener('mouseup', handleSelectionChange);
   }, []);
 
+  const questionLabel = (id: string) => `Q${result.questions.findIndex(q => q.id === id) + 1}`;
+
   const updateQuestionField = (id: string, field: keyof Question, value: any) => {
-    setResult(prev => {
-      if (!prev) return null;
+    history.commit(`Edit ${field.replace(/_/g, ' ')} (${questionLabel(id)})`, prev => {
+      const target = prev.questions.find(q => q.id === id);
+      if (!target || target[field] === value) return prev;
       return {
         ...prev,
         questions: prev.questions.map(q => q.id === id ? { ...q, [field]: value } : q)
       };
-    });
+    }, { coalesceKey: `${id}:${field}` });
+  };
+
+  const updateTitle = (title: string) => {
+    history.commit('Edit title', prev => prev.title === title ? prev : { ...prev, title }, { coalesceKey: 'title' });
   };
 
   const addImageToQuestion = (id: string, file: File) => {
@@ -70,70 +149,302 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
         caption: file.name
       };
       
-      setResult(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          questions: prev.questions.map(q => 
-            q.id === id ? { ...q, assets: [...(q.assets || []), newAsset] } : q
-          )
-        };
-      });
+      history.commit(`Insert image (${questionLabel(id)})`, prev => ({
+        ...prev,
+        questions: prev.questions.map(q => 
+          q.id === id ? { ...q, assets: [...(q.assets || []), newAsset] } : q
+        )
+      }));
     };
     reader.readAsDataURL(file);
   };
 
   const removeAsset = (qId: string, assetId: string) => {
-    setResult(prev => {
-      if (!prev) return null;
-      return {
+    history.commit(`Remove image (${questionLabel(qId)})`, prev => ({
+      ...prev,
+      questions: prev.questions.map(q => 
+        q.id === qId ? { ...q, assets: q.assets?.filter(a => a.id !== assetId) } : q
+      )
+    }));
+  };
+
+  const runQuestionCode = async (q: Question) => {
+    if (!q.code || runningId) return;
+    setRunningId(q.id);
+    try {
+      const execution = await executeQuestionCode(q.code, q.language || 'python');
+      history.commit(`Run code (${questionLabel(q.id)})`, prev => ({
         ...prev,
-        questions: prev.questions.map(q => 
-          q.id === qId ? { ...q, assets: q.assets?.filter(a => a.id !== assetId) } : q
+        questions: prev.questions.map(qu => 
+          qu.id === q.id ? { ...qu, execution, execution_output: formatExecutionOutput(execution) } : qu
         )
-      };
+      }));
+    } catch (err) {
+      console.error("Code execution failed", err);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  // Re-solves a question that failed or was cancelled during processing
+  const retryQuestion = async (q: Question) => {
+    if (retryingIds.includes(q.id)) return;
+    setRetryingIds(prev => [...prev, q.id]);
+    try {
+      let solved = await solvePendingQuestion(files, result, q);
+      if (needsExecution(solved, result)) solved = await executeSolvedCode(solved);
+      history.commit(`Solve question (${questionLabel(q.id)})`, prev => ({
+        ...prev,
+        questions: prev.questions.map(qu => qu.id === q.id ? solved : qu)
+      }), { source: 'ai' });
+    } catch (err: any) {
+      console.error(`Retry of question ${q.id} failed`, err);
+      const message = err?.message || 'Something went wrong while solving this question.';
+      setResult(prev => prev && {
+        ...prev,
+        questions: prev.questions.map(qu => qu.id === q.id ? { ...qu, error: message } : qu)
+      });
+    } finally {
+      setRetryingIds(prev => prev.filter(id => id !== q.id));
+    }
+  };
+
+  const failedQuestions = result.questions.filter(q => q.error);
+
+  const regenerateQuestion = async (q: Question, label: string, guidance: string) => {
+    if (regeneratingIds.includes(q.id)) return;
+    setRegeneratingIds(prev => [...prev, q.id]);
+    try {
+      const regenerated = await regenerateSolution(files, result, q, guidance);
+      history.commit(`Regenerate solution (${questionLabel(q.id)})`, prev => ({
+        ...prev,
+        questions: prev.questions.map(qu => qu.id === q.id ? addVariant(qu, regenerated, label) : qu)
+      }), { source: 'ai' });
+    } catch (err) {
+      console.error(`Regenerating question ${q.id} failed`, err);
+      window.alert(`Could not regenerate ${questionLabel(q.id)}. Please try again.`);
+    } finally {
+      setRegeneratingIds(prev => prev.filter(id => id !== q.id));
+    }
+  };
+
+  const checkQuestion = async (q: Question) => {
+    if (verifyingIds.includes(q.id)) return;
+    setVerifyingIds(prev => [...prev, q.id]);
+    try {
+      const verification = await verifyQuestion(files, result, q);
+      // Verification results are metadata, so they bypass the undo history; undoing an earlier edit keeps them
+      setResult(prev => prev && {
+        ...prev,
+        questions: prev.questions.map(qu => qu.id === q.id ? { ...qu, verification } : qu)
+      });
+    } catch (err) {
+      console.error(`Verifying question ${q.id} failed`, err);
+      window.alert(`Could not verify ${questionLabel(q.id)}. Please try again.`);
+    } finally {
+      setVerifyingIds(prev => prev.filter(id => id !== q.id));
+    }
+  };
+
+  // Reveal progress is study state rather than an edit, so it bypasses the undo history
+  const setRevealLevel = (qId: string, revealLevel: number, hints?: string[]) => {
+    setResult(prev => prev && {
+      ...prev,
+      questions: prev.questions.map(q => q.id === qId ? { ...q, revealLevel, ...(hints && { hints }) } : q)
     });
   };
 
+  const toggleLearningMode = () => {
+    setResult(prev => prev && { ...prev, learningMode: !prev.learningMode });
+  };
+
+  const showNextHint = async (q: Question) => {
+    const level = q.revealLevel || 0;
+    if (q.hints) {
+      setRevealLevel(q.id, Math.min(level + 1, q.hints.length));
+      return;
+    }
+    if (hintLoadingIds.includes(q.id)) return;
+    setHintLoadingIds(prev => [...prev, q.id]);
+    try {
+      const hints = await aiService.generateHints(result, q);
+      setRevealLevel(q.id, 1, hints);
+    } catch (err) {
+      console.error(`Generating hints for question ${q.id} failed`, err);
+      window.alert(`Could not prepare hints for ${questionLabel(q.id)}. Please try again.`);
+    } finally {
+      setHintLoadingIds(prev => prev.filter(id => id !== q.id));
+    }
+  };
+
+  const switchVariant = (qId: string, variantId: string) => {
+    history.commit(`Switch solution variant (${questionLabel(qId)})`, prev => ({
+      ...prev,
+      questions: prev.questions.map(q => q.id === qId ? selectVariant(q, variantId) : q)
+    }));
+  };
+
+  const discardVariant = (qId: string, variantId: string) => {
+    history.commit(`Discard solution variant (${questionLabel(qId)})`, prev => ({
+      ...prev,
+      questions: prev.questions.map(q => q.id === qId ? removeVariant(q, variantId) : q)
+    }));
+  };
+
   const applyFormatting = (command: string, value?: string) => {
     document.execCommand(command, false, value);
   };
 
-  const handleDownload = () => {
-    // Hide toolbars explicitly before printing
+  const clearSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    setSelectionBox(null);
+    selectionRef.current = null;
+  };
+
+  // Rewrites the selected passage and puts the result exactly where it was
+  const refineSelection = async (action: RefineAction) => {
+    const selection = selectionRef.current;
+    if (!selection?.field || !selection.range || refiningAction) return;
+    const label = selectionLabel(result, selection);
+    const value = fieldValue(result, selection);
+    const passage = value !== undefined ? splitAtSelection(value, selection.range, isInlineField(selection.field)) : null;
+    if (!passage) {
+      window.alert("The selected text has changed. Select it again and retry.");
+      return;
+    }
+
+    const refine = async () => {
+      const replacement = await aiService.refineSelection(result, label, passage, action.instruction);
+      // The student may have kept typing; the span is found again in the latest document
+      if (!replaceSelection(resultRef.current, selection, replacement)) return false;
+      history.commit(`${action.label} (${label})`, prev => replaceSelection(prev, selection, replacement) ?? prev, { source: 'ai' });
+      return true;
+    };
+
+    setRefiningAction(action.id);
+    try {
+      const locked = selection.questionId ? [selection.questionId] : [];
+      const applied = collabSnapshot && collab ? await collab.withLocks(locked, refine) : await refine();
+      if (applied === null) {
+        window.alert("Another collaborator's AI tutor is editing this question. Try again in a moment.");
+      } else if (!applied) {
+        window.alert("The selected text changed while it was being rewritten, so nothing was replaced.");
+      } else {
+        clearSelection();
+      }
+    } catch (err) {
+      console.error(`Refining the selection (${action.id}) failed`, err);
+      window.alert("Could not rewrite the selection. Please try again.");
+    } finally {
+      setRefiningAction(null);
+    }
+  };
+
+  const translateSelection = () => {
+    const language = window.prompt("Translate the selection into which language?");
+    if (language?.trim()) refineSelection(translateAction(language.trim()));
+  };
+
+  const askTutorAboutSelection = () => {
+    setTutorSelection(selectionRef.current);
+    setIsAITutorOpen(true);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const { label } = EXPORT_FORMATS.find(f => f.format === format)!;
     setSelectionBox(null);
-    setTimeout(() => {
-      window.print();
-    }, 150);
+    setIsExportMenuOpen(false);
+    setExportingFormat(format);
+    try {
+      await downloadExport(result, format, fontFamily);
+    } catch (err) {
+      console.error(`${label} export failed`, err);
+      window.alert(err instanceof FontEmbedError ? err.message : `${label} export failed. Please try again.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Cards are deduplicated against this assignment's existing deck, so running it again only adds what is new
+  const handleFlashcards = async () => {
+    setIsMakingFlashcards(true);
+    try {
+      const existing = await libraryService.listFlashcards(assignmentId);
+      const cards = await createFlashcards(assignmentId, result, existing);
+      await libraryService.saveFlashcards(cards);
+      setFlashcardsAdded(cards.length);
+      setTimeout(() => setFlashcardsAdded(null), 2500);
+    } catch (err) {
+      console.error("Flashcard generation failed", err);
+      window.alert("Could not create flashcards. Please try again.");
+    } finally {
+      setIsMakingFlashcards(false);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    setIsExportMenuOpen(false);
+    try {
+      await navigator.clipboard.writeText(await createShareLink(result));
+      setShareLinkCopied(true);
+      setTimeout(() => setShareLinkCopied(false), 3000);
+    } catch (err) {
+      console.error("Share link failed", err);
+      window.alert(err instanceof BundleError ? err.message : "Could not create a share link. Please try again.");
+    }
   };
 
+  // Shares the document under its library id and copies the invite link
   const handleCollaboration = () => {
+    if (!collab) return;
+    if (collab.room !== assignmentId) collab.start(assignmentId);
+    navigator.clipboard.writeText(inviteLink(assignmentId));
     setCollabActive(true);
-    // Mock sharing by copying link to clipboard
-    navigator.clipboard.writeText(window.location.href);
     setTimeout(() => setCollabActive(false), 3000);
   };
 
+  const renameSelf = () => {
+    const name = window.prompt("Your name, as other collaborators see it:", collab?.snapshot?.self.name);
+    if (name?.trim()) collab?.setName(name.trim());
+  };
+
   const FloatingToolbar = () => {
     if (!selectionBox) return null;
+    const selection = selectionRef.current;
+    const canRefine = !!selection?.range && !(selection.questionId && lockOwner(selection.questionId));
+    const actionClass = "flex items-center gap-1.5 px-2 py-1 hover:bg-slate-700 rounded text-[10px] font-black uppercase tracking-tighter transition-colors whitespace-nowrap disabled:opacity-40";
     return (
-      <div 
-        className="fixed z-[100] bg-slate-900 text-white rounded-lg shadow-2xl p-1.5 flex items-center gap-1 animate-in zoom-in-95 fade-in duration-200 border border-slate-700/50 backdrop-blur-md no-print"
-        style={{ top: selectionBox.top, left: selectionBox.left }}
-        onMouseDown={(e) => e.preventDefault()}
-      >
-        <button onClick={() => applyFormatting('bold')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Bold"><Bold size={14} /></button>
-        <button onClick={() => applyFormatting('italic')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Italic"><Italic size={14} /></button>
-        <button onClick={() => applyFormatting('underline')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Underline"><Underline size={14} /></button>
-        <div className="w-[1px] h-4 bg-slate-700 mx-1" />
-        <button onClick={() => applyFormatting('backColor', '#fffde7')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Highlight"><Highlighter size={14} /></button>
-        <div className="w-[1px] h-4 bg-slate-700 mx-1" />
-        <button 
-          onClick={() => setIsAITutorOpen(true)}
-          className="flex items-center gap-1.5 px-2.5 py-1 hover:bg-blue-600 rounded text-[10px] font-black uppercase tracking-tighter transition-all bg-blue-500/20 text-blue-300"
+      <div className="fixed z-[100] -translate-x-1/2 no-print" style={{ top: selectionBox.top, left: selectionBox.left }}>
+        <div 
+          className="bg-slate-900 text-white rounded-lg shadow-2xl p-1.5 flex items-center gap-1 animate-in zoom-in-95 fade-in duration-200 border border-slate-700/50 backdrop-blur-md"
+          onMouseDown={(e) => e.preventDefault()}
         >
-          <Sparkles size={12} /> Refine with AI
-        </button>
+          <button onClick={() => applyFormatting('bold')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Bold"><Bold size={14} /></button>
+          <button onClick={() => applyFormatting('italic')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Italic"><Italic size={14} /></button>
+          <button onClick={() => applyFormatting('underline')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Underline"><Underline size={14} /></button>
+          <div className="w-[1px] h-4 bg-slate-700 mx-1" />
+          <button onClick={() => applyFormatting('backColor', '#fffde7')} className="p-1.5 hover:bg-slate-700 rounded transition-colors" title="Highlight"><Highlighter size={14} /></button>
+          <div className="w-[1px] h-4 bg-slate-700 mx-1" />
+          {canRefine && (
+            <>
+              {REFINE_ACTIONS.map(action => (
+                <button key={action.id} onClick={() => refineSelection(action)} disabled={!!refiningAction} className={actionClass}>
+                  {refiningAction === action.id && <Loader2 size={12} className="animate-spin" />} {action.label}
+                </button>
+              ))}
+              <button onClick={translateSelection} disabled={!!refiningAction} className={actionClass} title="Translate">
+                {refiningAction === 'translate' ? <Loader2 size={12} className="animate-spin" /> : <Languages size={12} />}
+              </button>
+              <div className="w-[1px] h-4 bg-slate-700 mx-1" />
+            </>
+          )}
+          <button 
+            onClick={askTutorAboutSelection}
+            className="flex items-center gap-1.5 px-2.5 py-1 hover:bg-blue-600 rounded text-[10px] font-black uppercase tracking-tighter transition-all bg-blue-500/20 text-blue-300 whitespace-nowrap"
+          >
+            <Sparkles size={12} /> Ask AI
+          </button>
+        </div>
       </div>
     );
   };
@@ -142,8 +453,60 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
     <div className="sticky top-16 z-40 bg-white/90 backdrop-blur-md border-b border-slate-200 px-6 py-2 flex items-center justify-between no-print shadow-sm overflow-x-auto no-scrollbar">
       <div className="flex items-center gap-1">
         {/* Undo/Redo */}
-        <div className="flex border-r pr-3 mr-3 gap-1 border-slate-200">
-           <button onClick={() => applyFormatting('undo')} className="p-2 hover:bg-slate-100 rounded text-slate-500"><RotateCcw size={16} /></button>
+        <div className="flex border-r pr-3 mr-3 gap-1 border-slate-200 relative">
+           <button 
+             onClick={history.undo} 
+             disabled={history.past.length === 0}
+             className="p-2 hover:bg-slate-100 rounded text-slate-500 disabled:opacity-30"
+             title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+           >
+             <RotateCcw size={16} />
+           </button>
+           <button 
+             onClick={history.redo} 
+             disabled={history.future.length === 0}
+             className="p-2 hover:bg-slate-100 rounded text-slate-500 disabled:opacity-30"
+             title={history.future.length ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+           >
+             <RotateCw size={16} />
+           </button>
+           <button 
+             onClick={() => setIsHistoryOpen(o => !o)} 
+             className={`p-2 hover:bg-slate-100 rounded ${isHistoryOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-500'}`}
+             title="Edit History"
+           >
+             <History size={16} />
+           </button>
+           {isHistoryOpen && (
+             <div className="absolute top-full left-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border border-slate-200 rounded-xl shadow-2xl p-2 z-50">
+               <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 px-2 py-1.5">Edit History</div>
+               {history.past.length === 0 && (
+                 <div className="text-[11px] text-slate-400 px-2 py-3">No changes yet.</div>
+               )}
+               {[...history.past].reverse().map(entry => (
+                 <div key={entry.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 text-[11px]">
+                   <span className={entry.source === 'ai' ? 'text-blue-600' : 'text-slate-400'}>
+                     {entry.source === 'ai' ? <Sparkles size={12} /> : <User size={12} />}
+                   </span>
+                   <span className={`flex-1 truncate font-semibold ${entry.reverted ? 'line-through text-slate-300' : 'text-slate-700'}`}>{entry.label}</span>
+                   <span className="text-slate-300">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                   {entry.source === 'ai' && !entry.reverted && (
+                     <button 
+                       onClick={() => {
+                         const conflicts = history.revert(entry.id);
+                         if (conflicts > 0) {
+                           window.alert(`${conflicts} field(s) were edited after this change and were kept as-is.`);
+                         }
+                       }}
+                       className="text-[10px] font-black uppercase text-red-500 hover:bg-red-50 px-2 py-0.5 rounded"
+                     >
+                       Revert
+                     </button>
+                   )}
+                 </div>
+               ))}
+             </div>
+           )}
         </div>
 
         {/* Font Family Selector */}
@@ -176,6 +539,22 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
           </select>
         </div>
 
+        <button 
+          onClick={toggleLearningMode} 
+          className={`p-2 rounded ${result.learningMode ? 'text-amber-600 bg-amber-50' : 'text-slate-600 hover:bg-slate-100'}`}
+          title={result.learningMode ? 'Learning mode on: solutions are hidden behind hints' : 'Learning mode: hide solutions behind hints'}
+        >
+          <GraduationCap size={16} />
+        </button>
+
+        <button 
+          onClick={() => setShowMathSource(v => !v)} 
+          className={`p-2 mr-3 rounded ${showMathSource ? 'text-blue-600 bg-blue-50' : 'text-slate-600 hover:bg-slate-100'}`}
+          title={showMathSource ? 'Show rendered math' : 'Show LaTeX source'}
+        >
+          <Sigma size={16} />
+        </button>
+
         <div className="flex border-r pr-3 mr-3 gap-1 border-slate-200">
            <button onClick={() => applyFormatting('bold')} className="p-2 hover:bg-slate-100 rounded text-slate-600"><Bold size={16} /></button>
            <button onClick={() => applyFormatting('italic')} className="p-2 hover:bg-slate-100 rounded text-slate-600"><Italic size={16} /></button>
@@ -191,8 +570,50 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
       </div>
 
       <div className="flex items-center gap-3">
-        <button onClick={handleDownload} className="flex items-center gap-2 px-4 py-2 hover:bg-slate-100 rounded-lg text-[11px] font-bold text-slate-700 transition-colors">
-          <Printer size={16} /> PDF Export
+        <div className="relative">
+          <button 
+            onClick={() => setIsExportMenuOpen(o => !o)} 
+            disabled={!!exportingFormat}
+            className="flex items-center gap-2 px-4 py-2 hover:bg-slate-100 rounded-lg text-[11px] font-bold text-slate-700 transition-colors disabled:opacity-50"
+          >
+            {exportingFormat ? <Loader2 size={16} className="animate-spin" /> : shareLinkCopied ? <Check size={16} /> : <FileDown size={16} />}
+            {shareLinkCopied ? 'Link Copied!' : 'Export'} <ChevronDown size={12} />
+          </button>
+          {isExportMenuOpen && (
+            <div className="absolute top-full right-0 mt-2 w-56 bg-white border border-slate-200 rounded-xl shadow-2xl p-2 z-50">
+              {EXPORT_FORMATS.map(f => (
+                <button 
+                  key={f.format}
+                  onClick={() => handleExport(f.format)}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 text-[11px] font-semibold text-slate-700"
+                >
+                  {f.label}
+                </button>
+              ))}
+              <div className="my-1 border-t border-slate-100" />
+              <button 
+                onClick={handleCopyShareLink}
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 text-[11px] font-semibold text-slate-700 flex items-center gap-2"
+              >
+                <Link2 size={12} /> Copy read-only link
+              </button>
+            </div>
+          )}
+        </div>
+        <button 
+          onClick={() => setIsPracticeOpen(true)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-[11px] font-bold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all"
+        >
+          <Target size={16} /> Practice
+        </button>
+        <button 
+          onClick={handleFlashcards}
+          disabled={isMakingFlashcards}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-[11px] font-bold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all disabled:opacity-50"
+          title="Turn the explanations into flashcards for daily review"
+        >
+          {isMakingFlashcards ? <Loader2 size={16} className="animate-spin" /> : flashcardsAdded !== null ? <Check size={16} /> : <Layers size={16} />}
+          {flashcardsAdded !== null ? `${flashcardsAdded} card${flashcardsAdded === 1 ? '' : 's'} added` : 'Flashcards'}
         </button>
         <button 
           onClick={handleCollaboration}
@@ -201,46 +622,12 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
           }`}
         >
           {collabActive ? <Check size={16} /> : <Share2 size={16} />}
-          {collabActive ? 'Link Copied!' : 'Collaboration'}
+          {collabActive ? 'Link Copied!' : collabSnapshot ? 'Invite' : 'Collaboration'}
         </button>
       </div>
     </div>
   );
 
-  const EditableBlock = ({ 
-    value, 
-    onUpdate, 
-    className, 
-    isHeading = false, 
-    placeholder = "" 
-  }: { value: string, onUpdate: (v: string) => void, className: string, isHeading?: boolean, placeholder?: string }) => {
-    const editorRef = useRef<HTMLDivElement>(null);
-
-    useEffect(() => {
-      if (editorRef.current && editorRef.current.innerHTML !== value) {
-        editorRef.current.innerHTML = value;
-      }
-    }, []);
-
-    const handleInput = () => {
-      if (editorRef.current) {
-        onUpdate(editorRef.current.innerHTML);
-      }
-    };
-
-    return (
-      <div 
-        ref={editorRef}
-        contentEditable
-        onInput={handleInput}
-        onBlur={handleInput}
-        placeholder={placeholder}
-        className={`w-full focus:outline-none focus:bg-blue-50/20 p-1 rounded-sm transition-all duration-300 ${className} ${isHeading ? 'font-black tracking-tight' : ''}`}
-        style={{ fontFamily, fontSize: isHeading ? '1.5em' : fontSize }}
-      />
-    );
-  };
-
   return (
     <div className="w-full min-h-screen bg-[#f1f3f5] pb-20 no-print flex flex-col">
       <FloatingToolbar />
@@ -254,7 +641,7 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
           <div className="flex flex-col">
             <input 
               value={result.title}
-              onChange={(e) => setResult(prev => prev ? { ...prev, title: e.target.value } : null)}
+              onChange={(e) => updateTitle(e.target.value)}
               className="text-[13px] font-extrabold text-slate-800 bg-transparent border-none focus:ring-2 focus:ring-blue-100 px-1.5 py-0.5 rounded outline-none w-80 transition-all"
             />
             <div className="flex items-center gap-5 text-[10px] text-slate-400 px-1.5 font-bold uppercase tracking-widest mt-0.5">
@@ -272,12 +659,26 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
         </div>
         
         <div className="flex items-center gap-4">
-           <div className="flex -space-x-2 mr-4">
-              {[1, 2, 3].map(i => (
-                <div key={i} className="w-8 h-8 rounded-full border-2 border-white bg-slate-200 flex items-center justify-center text-[10px] font-bold text-slate-500">
-                   {String.fromCharCode(64 + i)}
-                </div>
-              ))}
+           <div className="flex items-center -space-x-2 mr-4">
+              {collabSnapshot && (
+                <>
+                  <span
+                    className={`w-2 h-2 rounded-full mr-4 ${collabSnapshot.status === 'connected' ? 'bg-green-500' : collabSnapshot.status === 'connecting' ? 'bg-amber-400 animate-pulse' : 'bg-red-400'}`}
+                    title={collabSnapshot.status === 'connected' ? 'Live' : collabSnapshot.status === 'connecting' ? 'Connecting...' : 'Offline. Changes sync when the connection is back.'}
+                  />
+                  {[collabSnapshot.self, ...collabSnapshot.peers].map(peer => (
+                    <div
+                      key={peer.clientId}
+                      onClick={peer === collabSnapshot.self ? renameSelf : undefined}
+                      className={`w-8 h-8 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-bold text-white ${peer === collabSnapshot.self ? 'cursor-pointer' : ''}`}
+                      style={{ backgroundColor: peer.color }}
+                      title={peer === collabSnapshot.self ? `${peer.name} (you), click to rename` : peer.name}
+                    >
+                      {initials(peer.name)}
+                    </div>
+                  ))}
+                </>
+              )}
               <div 
                 className="w-8 h-8 rounded-full border-2 border-white bg-blue-600 flex items-center justify-center text-white shadow-sm cursor-pointer hover:scale-110 transition-transform"
                 onClick={handleCollaboration}
@@ -285,10 +686,20 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
               >
                 <Plus size={14} />
               </div>
+              {collabSnapshot && (
+                <button
+                  onClick={() => collab?.stop()}
+                  className="!ml-2 p-1.5 hover:bg-slate-100 rounded-lg text-slate-400"
+                  title="Stop collaborating"
+                >
+                  <LogOut size={14} />
+                </button>
+              )}
            </div>
            <button 
-             onClick={handleDownload}
-             className="bg-blue-50 text-blue-600 px-4 py-2 rounded-xl hover:bg-blue-100 transition-all font-bold text-[11px] shadow-sm border border-blue-100"
+             onClick={() => handleExport('pdf')}
+             disabled={!!exportingFormat}
+             className="bg-blue-50 text-blue-600 px-4 py-2 rounded-xl hover:bg-blue-100 transition-all font-bold text-[11px] shadow-sm border border-blue-100 disabled:opacity-50"
            >
               Publish PDF
            </button>
@@ -308,9 +719,13 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
           <div className="mb-16 pb-12 border-b-2 border-slate-100 text-center">
             <EditableBlock 
               value={result.title} 
-              onUpdate={(v) => setResult(prev => prev ? { ...prev, title: v } : null)} 
+              field="title"
+              onUpdate={updateTitle} 
               className="text-4xl text-center font-black uppercase tracking-[0.2em] mb-4 text-slate-900"
+              fontFamily={fontFamily}
+              fontSize={fontSize}
               isHeading={true}
+              inline
             />
             <div className="flex items-center justify-center gap-6 text-[11px] text-slate-400 font-black uppercase tracking-[0.4em]">
                <span>Assignment Dossier</span>
@@ -319,12 +734,42 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
             </div>
           </div>
 
+          {failedQuestions.length > 0 && (
+            <div className="mb-12 flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-600 no-print">
+              <span className="flex items-center gap-2">
+                <AlertTriangle size={16} />
+                {failedQuestions.length} question{failedQuestions.length === 1 ? '' : 's'} could not be solved.
+              </span>
+              <button
+                onClick={() => failedQuestions.forEach(retryQuestion)}
+                disabled={failedQuestions.every(q => retryingIds.includes(q.id))}
+                className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold hover:bg-red-100 transition-colors disabled:opacity-50"
+              >
+                Retry all
+              </button>
+            </div>
+          )}
+
           <div className="space-y-16">
             {result.questions.map((q, index) => (
-              <div key={q.id} className="group relative">
+              <div
+                key={q.id}
+                data-question-id={q.id}
+                className="group relative"
+                onFocus={() => collabSnapshot && collab?.setFocus({ questionId: q.id })}
+                onBlur={() => collabSnapshot && collab?.setFocus(null)}
+              >
+                {/* Low-confidence answers are marked in the margin for review */}
+                {q.verification?.confidence === 'low' && (
+                  <div className="absolute -left-6 top-0 bottom-0 w-1 rounded-full bg-red-300 no-print" />
+                )}
+
+                {collabSnapshot && (
+                  <PresenceCursors peers={collabSnapshot.peers.filter(p => p.focus?.questionId === q.id)} />
+                )}
                 
                 {/* Block Controls (Left Margin) */}
-                <div className="absolute -left-16 top-0 opacity-0 group-hover:opacity-100 transition-all flex flex-col gap-2 no-print">
+                <div className={`absolute -left-16 top-0 opacity-0 group-hover:opacity-100 transition-all flex flex-col gap-2 no-print ${lockOwner(q.id) ? 'hidden' : ''}`}>
                    <button className="p-2 hover:bg-slate-100 rounded-lg text-slate-400" title="Drag Block"><Maximize2 size={16} /></button>
                    <button onClick={() => {
                      const input = document.createElement('input');
@@ -338,31 +783,113 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                    }} className="p-2 hover:bg-blue-50 text-blue-500 rounded-lg" title="Insert Image"><ImageIcon size={16} /></button>
                    <button onClick={() => {
                       if(window.confirm("Delete this question?")) {
-                        setResult(prev => prev ? {...prev, questions: prev.questions.filter(qu => qu.id !== q.id)} : null);
+                        history.commit(`Delete question (${questionLabel(q.id)})`, prev => ({...prev, questions: prev.questions.filter(qu => qu.id !== q.id)}));
                       }
                    }} className="p-2 hover:bg-red-50 text-red-400 rounded-lg" title="Delete Question"><Trash2 size={16} /></button>
                 </div>
 
-                <div className="flex gap-6">
+                {lockOwner(q.id) && (
+                  <div className="flex items-center gap-2 mb-4 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-semibold text-slate-500 no-print">
+                    <Lock size={12} /> {lockOwner(q.id)!.name}'s AI tutor is editing this question
+                  </div>
+                )}
+                <div className={`flex gap-6 ${lockOwner(q.id) ? 'pointer-events-none select-none opacity-60' : ''}`}>
                   <span className="font-black text-slate-300 text-2xl flex-shrink-0 min-w-[3rem] mt-1">{String(index + 1).padStart(2, '0')}</span>
                   <div className="flex-1 space-y-6">
+                    {(q.source || !q.error) && (
+                      <div className="flex items-center justify-between gap-4 no-print">
+                        {q.source ? (
+                          <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-300">
+                            <FileText size={11} /> {q.source.fileName}{q.source.page ? ` · p. ${q.source.page}` : ''}
+                          </div>
+                        ) : <span />}
+                        {!q.error && (
+                          <VerificationBadge
+                            verification={q.verification}
+                            isVerifying={verifyingIds.includes(q.id)}
+                            onVerify={() => checkQuestion(q)}
+                          />
+                        )}
+                      </div>
+                    )}
+                    {q.verification?.confidence === 'low' && (
+                      <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-600 no-print">
+                        <AlertTriangle size={14} className="flex-shrink-0" />
+                        The self-check disagreed with this answer. Review it before handing it in.
+                      </div>
+                    )}
                     <EditableBlock 
                       value={q.question_text} 
+                      field="question_text"
                       onUpdate={(val) => updateQuestionField(q.id, 'question_text', val)} 
-                      className="font-bold text-xl leading-snug text-slate-800" 
+                      className="font-bold text-xl leading-snug text-slate-800"
+                      fontFamily={fontFamily}
+                      fontSize={fontSize}
+                      math
+                      showSource={showMathSource}
                     />
 
-                    {/* Rich Explanation */}
-                    <div className="space-y-4">
-                      <h4 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-600 flex items-center gap-2">
-                        <PenTool size={12} /> Analytical Exposition
-                      </h4>
-                      <EditableBlock 
-                        value={q.explanation} 
-                        onUpdate={(val) => updateQuestionField(q.id, 'explanation', val)} 
-                        className="text-[14px] leading-relaxed text-slate-600 whitespace-pre-wrap"
+                    {q.error && (
+                      <div className="flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-600 no-print">
+                        <span className="flex items-center gap-2">
+                          <AlertTriangle size={16} className="flex-shrink-0" /> {q.error}
+                        </span>
+                        <button
+                          onClick={() => retryQuestion(q)}
+                          disabled={retryingIds.includes(q.id)}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold hover:bg-red-100 transition-colors disabled:opacity-50"
+                        >
+                          {retryingIds.includes(q.id) ? <Loader2 size={12} className="animate-spin" /> : <RotateCw size={12} />}
+                          {retryingIds.includes(q.id) ? 'Solving' : 'Retry'}
+                        </button>
+                      </div>
+                    )}
+
+                    {result.learningMode && !q.error && (
+                      <HintLadder
+                        question={q}
+                        isLoading={hintLoadingIds.includes(q.id)}
+                        onNextHint={() => showNextHint(q)}
+                        onRevealSolution={() => setRevealLevel(q.id, (q.hints?.length || 0) + 1)}
+                        onHide={() => setRevealLevel(q.id, q.hints?.length || 0)}
                       />
-                    </div>
+                    )}
+
+                    {!isSolutionHidden(result, q) && q.variants && q.variants.length > 1 && (
+                      <VariantSwitcher
+                        variants={q.variants}
+                        activeId={q.activeVariantId}
+                        onSelect={(variantId) => switchVariant(q.id, variantId)}
+                        onRemove={(variantId) => discardVariant(q.id, variantId)}
+                      />
+                    )}
+
+                    {/* Rich Explanation */}
+                    {!isSolutionHidden(result, q) && (
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <h4 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-600 flex items-center gap-2">
+                            <PenTool size={12} /> Analytical Exposition
+                          </h4>
+                          {!q.error && (
+                            <RegenerateMenu
+                              isRegenerating={regeneratingIds.includes(q.id)}
+                              onRegenerate={(label, guidance) => regenerateQuestion(q, label, guidance)}
+                            />
+                          )}
+                        </div>
+                        <EditableBlock 
+                          value={q.explanation} 
+                          field="explanation"
+                          onUpdate={(val) => updateQuestionField(q.id, 'explanation', val)} 
+                          className="text-[14px] leading-relaxed text-slate-600"
+                          fontFamily={fontFamily}
+                          fontSize={fontSize}
+                          math
+                          showSource={showMathSource}
+                        />
+                      </div>
+                    )}
 
                     {/* Image Assets */}
                     {q.assets && q.assets.length > 0 && (
@@ -390,7 +917,7 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                     )}
 
                     {/* Code Section (Special Handling) */}
-                    {q.code !== undefined && (
+                    {q.code !== undefined && !isSolutionHidden(result, q) && (
                       <div className="my-8 space-y-3">
                         <div className="flex items-center justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">
                           <div className="flex items-center gap-3">
@@ -401,14 +928,24 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                               className="bg-slate-50 border-none focus:outline-none rounded-full px-4 py-1 font-bold text-blue-600"
                             />
                           </div>
-                          <button onClick={() => {
-                            navigator.clipboard.writeText(q.code || '');
-                            setCopiedId(q.id);
-                            setTimeout(() => setCopiedId(null), 2000);
-                          }} className="hover:text-blue-600 transition-all flex items-center gap-2">
-                            {copiedId === q.id ? <Check size={12} /> : <Copy size={12} />}
-                            {copiedId === q.id ? 'COPIED' : 'COPY SNIPPET'}
-                          </button>
+                          <div className="flex items-center gap-4 no-print">
+                            <button 
+                              onClick={() => runQuestionCode(q)}
+                              disabled={runningId !== null}
+                              className="hover:text-green-600 transition-all flex items-center gap-2 disabled:opacity-50"
+                            >
+                              {runningId === q.id ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                              {runningId === q.id ? 'RUNNING' : 'RUN'}
+                            </button>
+                            <button onClick={() => {
+                              navigator.clipboard.writeText(q.code || '');
+                              setCopiedId(q.id);
+                              setTimeout(() => setCopiedId(null), 2000);
+                            }} className="hover:text-blue-600 transition-all flex items-center gap-2">
+                              {copiedId === q.id ? <Check size={12} /> : <Copy size={12} />}
+                              {copiedId === q.id ? 'COPIED' : 'COPY SNIPPET'}
+                            </button>
+                          </div>
                         </div>
                         <div className="bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 shadow-2xl">
                           <textarea
@@ -422,11 +959,36 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                             }}
                           />
                         </div>
+
+                        {/* Execution Output */}
+                        {q.execution && (
+                          <div className="bg-[#020617] rounded-2xl border border-slate-800 overflow-hidden">
+                            <div className="flex items-center justify-between px-6 py-3 border-b border-slate-800 text-[10px] font-black uppercase tracking-widest">
+                              <span className="flex items-center gap-2 text-slate-400">
+                                <Terminal size={12} /> Output
+                              </span>
+                              {q.execution.simulated ? (
+                                <span className="bg-amber-500/10 text-amber-400 px-3 py-1 rounded-full border border-amber-500/20">Simulated – not executed</span>
+                              ) : (
+                                <span className={`px-3 py-1 rounded-full border ${
+                                  q.execution.exitCode === 0 ? 'bg-green-500/10 text-green-400 border-green-500/20' : 'bg-red-500/10 text-red-400 border-red-500/20'
+                                }`}>
+                                  {q.execution.timedOut ? 'Timed out' : `Exit ${q.execution.exitCode}`} • {q.execution.durationMs} ms
+                                </span>
+                              )}
+                            </div>
+                            <pre className="font-mono text-[12px] leading-relaxed p-6 whitespace-pre-wrap break-words">
+                              {q.execution.stdout && <span className="text-slate-200">{q.execution.stdout}</span>}
+                              {q.execution.stderr && <span className="text-red-400">{q.execution.stderr}</span>}
+                              {!q.execution.stdout && !q.execution.stderr && <span className="text-slate-500">(no output)</span>}
+                            </pre>
+                          </div>
+                        )}
                       </div>
                     )}
 
                     {/* Conclusion */}
-                    {q.solution && !q.code && (
+                    {q.solution && !q.code && !isSolutionHidden(result, q) && (
                       <div className="bg-blue-600 p-8 rounded-[2rem] text-white shadow-xl shadow-blue-100 mt-8 relative overflow-hidden">
                         <div className="absolute top-0 right-0 p-8 opacity-10">
                            <Wand2 size={80} />
@@ -434,8 +996,13 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                         <h4 className="text-[11px] font-black uppercase tracking-[0.3em] mb-4 opacity-70">Synthesized Result</h4>
                         <EditableBlock 
                           value={q.solution} 
+                          field="solution"
                           onUpdate={(val) => updateQuestionField(q.id, 'solution', val)} 
                           className="text-lg font-bold leading-relaxed italic border-none focus:bg-white/10"
+                          fontFamily={fontFamily}
+                          fontSize={fontSize}
+                          math
+                          showSource={showMathSource}
                         />
                       </div>
                     )}
@@ -459,18 +1026,27 @@ const SolutionDisplay: React.FC<SolutionDisplayProps> = ({ result, setResult })
                Verified Academic Protocol 2.5.0
             </div>
             <div className="text-[9px] text-slate-300 font-bold uppercase tracking-[0.2em]">
-               Document Confidentiality Guaranteed • Page 1
+               Document Confidentiality Guaranteed
             </div>
           </div>
         </div>
       </div>
 
       <AITutorChat 
+        assignmentId={assignmentId}
         result={result} 
-        setResult={setResult} 
+        onApplyChange={(label, updater) => history.commit(label, updater, { source: 'ai' })}
+        collab={collabSnapshot ? collab : undefined}
+        getSelection={() => selectionRef.current}
+        attachedSelection={tutorSelection}
+        onDetachSelection={() => setTutorSelection(null)}
         forceOpen={isAITutorOpen} 
         onClose={() => setIsAITutorOpen(false)} 
       />
+
+      {isPracticeOpen && (
+        <PracticeQuiz assignmentId={assignmentId} result={result} onClose={() => setIsPracticeOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { SolutionVariant } from '../types';
+import { markdownToText } from '../services/markdown';
+
+interface VariantSwitcherProps {
+  variants: SolutionVariant[];
+  activeId?: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Generated solutions of one question side by side; picking one makes it the solution shown in the document
+const VariantSwitcher: React.FC<VariantSwitcherProps> = ({ variants, activeId, onSelect, onRemove }) => (
+  <div className="flex gap-3 overflow-x-auto pb-1 no-print">
+    {variants.map((v, i) => {
+      const isActive = v.id === activeId;
+      return (
+        <div
+          key={v.id}
+          onClick={() => !isActive && onSelect(v.id)}
+          className={`group/variant relative flex-shrink-0 w-56 p-3 rounded-xl border text-left transition-all ${
+            isActive ? 'border-purple-300 bg-purple-50/60 ring-1 ring-purple-200' : 'border-slate-100 bg-slate-50 hover:border-purple-200 cursor-pointer'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className={`text-[10px] font-black uppercase tracking-widest ${isActive ? 'text-purple-600' : 'text-slate-400'}`}>
+              {i + 1}. {v.label}
+            </span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (window.confirm(`Discard variant "${v.label}"?`)) onRemove(v.id);
+              }}
+              className="opacity-0 group-hover/variant:opacity-100 p-0.5 text-slate-300 hover:text-red-500 transition-opacity"
+              title="Discard variant"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <p className="text-[11px] leading-snug text-slate-500 line-clamp-3">{markdownToText(v.explanation)}</p>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default VariantSwitcher;
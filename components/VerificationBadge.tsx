@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Loader2, Check, X, RotateCw } from 'lucide-react';
+import { VerificationConfidence, VerificationResult } from '../types';
+import { CONFIDENCE_LABELS } from '../services/verification';
+
+interface VerificationBadgeProps {
+  verification?: VerificationResult;
+  isVerifying: boolean;
+  onVerify: () => void;
+}
+
+const CONFIDENCE_STYLES: Record<VerificationConfidence, string> = {
+  high: 'bg-green-50 text-green-700 border-green-100',
+  medium: 'bg-amber-50 text-amber-700 border-amber-100',
+  low: 'bg-red-50 text-red-700 border-red-100'
+};
+
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ verification, isVerifying, onVerify }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (isVerifying) {
+    return (
+      <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-slate-100 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+        <Loader2 size={11} className="animate-spin" /> Verifying
+      </span>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <button
+        onClick={onVerify}
+        className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-slate-100 text-[10px] font-bold uppercase tracking-widest text-slate-300 hover:text-blue-600 hover:border-blue-100 transition-colors"
+        title="Cross-check this answer"
+      >
+        <ShieldQuestion size={11} /> Verify
+      </button>
+    );
+  }
+
+  const Icon = verification.confidence === 'high' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[10px] font-bold uppercase tracking-widest ${CONFIDENCE_STYLES[verification.confidence]}`}
+      >
+        <Icon size={11} /> {CONFIDENCE_LABELS[verification.confidence]}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-2xl p-4 z-50 space-y-3 normal-case tracking-normal">
+          <p className="text-xs text-slate-600">{verification.summary}</p>
+          {verification.tests && verification.tests.length > 0 && (
+            <ul className="space-y-1">
+              {verification.tests.map(t => (
+                <li key={t.name} className="flex items-start gap-2 text-[11px]">
+                  {t.passed ? <Check size={12} className="text-green-500 mt-0.5 flex-shrink-0" /> : <X size={12} className="text-red-500 mt-0.5 flex-shrink-0" />}
+                  <span className="font-mono text-slate-700">{t.name}</span>
+                  {t.detail && <span className="text-slate-400">{t.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {verification.discrepancies.length > 0 && (
+            <div>
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Flagged</div>
+              <ul className="list-disc pl-4 space-y-1 text-[11px] text-slate-600">
+                {verification.discrepancies.map((d, i) => <li key={i}>{d}</li>)}
+              </ul>
+            </div>
+          )}
+          <div className="flex items-center justify-between pt-2 border-t border-slate-100 text-[10px] text-slate-400">
+            <span>
+              {verification.method === 'test-cases' ? 'Generated test cases' : 'Independent second solve'} · {new Date(verification.checkedAt).toLocaleString()}
+            </span>
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onVerify();
+              }}
+              className="flex items-center gap-1 font-bold hover:text-blue-600"
+            >
+              <RotateCw size={10} /> Check again
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationBadge;
@@ -0,0 +1,134 @@
+
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { AssignmentResult } from '../types';
+import { ChangeSource, HistoryEntry, revertEntry } from '../services/history';
+import { createId } from '../services/library';
+
+const MAX_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export interface CommitOptions {
+  source?: ChangeSource;
+  coalesceKey?: string;
+}
+
+export interface AssignmentHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  commit: (label: string, updater: (prev: AssignmentResult) => AssignmentResult, options?: CommitOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  revert: (entryId: string) => number;
+}
+
+// The entry turned around, so reverting it applies its change again
+const inverse = (entry: HistoryEntry): HistoryEntry => ({ ...entry, before: entry.after, after: entry.before });
+
+/**
+ * Undo/redo stack over the whole AssignmentResult. Every change goes through
+ * `commit` so it is recorded with a label and source. Undo/redo only touch what
+ * the entry changed, so edits made since (e.g. by collaborators) are kept.
+ */
+export const useAssignmentHistory = (
+  result: AssignmentResult,
+  setResult: React.Dispatch<React.SetStateAction<AssignmentResult | null>>
+): AssignmentHistory => {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  // Commits can fire several times before React re-renders, so read the latest document from a ref
+  const currentRef = useRef(result);
+  currentRef.current = result;
+  const pastRef = useRef(past);
+  pastRef.current = past;
+  const futureRef = useRef(future);
+  futureRef.current = future;
+
+  const apply = (next: AssignmentResult) => {
+    currentRef.current = next;
+    setResult(next);
+  };
+
+  const commit = useCallback((label: string, updater: (prev: AssignmentResult) => AssignmentResult, options: CommitOptions = {}) => {
+    const before = currentRef.current;
+    const after = updater(before);
+    if (after === before) return;
+    apply(after);
+
+    const last = pastRef.current[pastRef.current.length - 1];
+    const now = Date.now();
+    let nextPast: HistoryEntry[];
+    if (
+      options.coalesceKey && last && !last.reverted &&
+      last.coalesceKey === options.coalesceKey &&
+      now - last.timestamp < COALESCE_WINDOW_MS
+    ) {
+      nextPast = [...pastRef.current.slice(0, -1), { ...last, after, timestamp: now }];
+    } else {
+      nextPast = [...pastRef.current, {
+        id: createId(),
+        label,
+        source: options.source || 'user',
+        timestamp: now,
+        coalesceKey: options.coalesceKey,
+        before,
+        after
+      }].slice(-MAX_ENTRIES);
+    }
+    pastRef.current = nextPast;
+    futureRef.current = [];
+    setPast(nextPast);
+    setFuture([]);
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return;
+    apply(revertEntry(currentRef.current, entry).result);
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [entry, ...futureRef.current];
+    setPast(pastRef.current);
+    setFuture(futureRef.current);
+  }, []);
+
+  const redo = useCallback(() => {
+    const [entry, ...rest] = futureRef.current;
+    if (!entry) return;
+    apply(revertEntry(currentRef.current, inverse(entry)).result);
+    pastRef.current = [...pastRef.current, entry];
+    futureRef.current = rest;
+    setPast(pastRef.current);
+    setFuture(rest);
+  }, []);
+
+  // Selectively rolls back one earlier entry; returns how many fields were skipped as conflicts
+  const revert = useCallback((entryId: string) => {
+    const entry = pastRef.current.find(e => e.id === entryId);
+    if (!entry || entry.reverted) return 0;
+    const { result: reverted, conflicts } = revertEntry(currentRef.current, entry);
+    pastRef.current = pastRef.current.map(e => e.id === entryId ? { ...e, reverted: true } : e);
+    commit(`Revert: ${entry.label}`, () => reverted);
+    return conflicts;
+  }, [commit]);
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y drive the document history, not the browser's per-field undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Inputs outside the document (e.g. the tutor chat box) keep their native undo
+      if ((e.target as HTMLElement | null)?.closest?.('[data-history-ignore]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return { past, future, commit, undo, redo, revert };
+};
@@ -0,0 +1,99 @@
+import React, { useState, useRef, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { AssignmentResult } from '../types';
+import { CollabFocus, CollabPeer } from '../services/collab/protocol';
+import { CollabSession, CollabSnapshot } from '../services/collab/session';
+import { isDocumentEmpty, readDocument, writeDocument } from '../services/collab/document';
+
+export interface Collaboration {
+  // Room currently shared, null when working alone
+  room: string | null;
+  snapshot: CollabSnapshot | null;
+  start: (room: string) => void;
+  stop: () => void;
+  setFocus: (focus: CollabFocus | null) => void;
+  setName: (name: string) => void;
+  lockOwner: (questionId: string) => CollabPeer | undefined;
+  // Holds the questions' locks while `task` runs; returns null without running it if a peer holds one
+  withLocks: <T>(questionIds: string[], task: () => Promise<T>) => Promise<T | null>;
+}
+
+// Time for a claim to reach peers and any competing claim to come back before the lock counts
+const LOCK_SETTLE_MS = 300;
+
+const noopSubscribe = () => () => {};
+const noSnapshot = () => null;
+
+/**
+ * Keeps the local AssignmentResult and a shared room document in step. Local
+ * changes (including undo and AI edits) are diffed into the CRDT; changes from
+ * peers replace the local document without going through the edit history.
+ */
+export const useCollaboration = (
+  result: AssignmentResult | null,
+  setResult: React.Dispatch<React.SetStateAction<AssignmentResult | null>>
+): Collaboration => {
+  const [room, setRoom] = useState<string | null>(null);
+  const [session, setSession] = useState<CollabSession | null>(null);
+  const snapshot = useSyncExternalStore(session?.subscribe ?? noopSubscribe, session?.getSnapshot ?? noSnapshot);
+  // The last document received from the room, so it is not written straight back
+  const remoteRef = useRef<AssignmentResult | null>(null);
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  useEffect(() => {
+    if (!room) return;
+    const next = new CollabSession(room);
+    remoteRef.current = null;
+    const unsubscribe = next.onRemoteChange(() => {
+      // The first peer in an empty room publishes its copy; everyone else adopts the room's
+      if (isDocumentEmpty(next.doc)) {
+        if (resultRef.current) writeDocument(next.doc, resultRef.current);
+        return;
+      }
+      const shared = readDocument(next.doc);
+      remoteRef.current = shared;
+      setResult(shared);
+    });
+    setSession(next);
+    return () => {
+      unsubscribe();
+      next.close();
+      setSession(null);
+    };
+  }, [room, setResult]);
+
+  // Runs on local changes only; the room's copy is adopted or published by the first sync itself
+  useEffect(() => {
+    if (!session?.getSnapshot().synced || !result || result === remoteRef.current) return;
+    writeDocument(session.doc, result);
+  }, [session, result]);
+
+  const start = useCallback((next: string) => setRoom(next), []);
+  const stop = useCallback(() => setRoom(null), []);
+
+  const setFocus = useCallback((focus: CollabFocus | null) => session?.setFocus(focus), [session]);
+  const setName = useCallback((name: string) => session?.setName(name), [session]);
+  // Re-created on every presence change so components reading locks re-render with them
+  const lockOwner = useCallback((questionId: string) => session?.lockOwner(questionId), [session, snapshot]);
+
+  const withLocks = useCallback(async <T,>(questionIds: string[], task: () => Promise<T>): Promise<T | null> => {
+    if (!session) return task();
+    const release = session.lock(questionIds);
+    if (!release) return null;
+    // Two peers can both claim before either sees the other; after the exchange the lower client id keeps it
+    if (session.getSnapshot().status === 'connected') {
+      await new Promise(resolve => setTimeout(resolve, LOCK_SETTLE_MS));
+      if (questionIds.some(id => session.lockOwner(id))) {
+        release();
+        return null;
+      }
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }, [session]);
+
+  return { room, snapshot, start, stop, setFocus, setName, lockOwner, withLocks };
+};
@@ -0,0 +1,96 @@
+/**
+ * Minimal relay for real-time collaboration. While anyone is connected, each
+ * room keeps the merged Yjs state of its document in memory so late joiners
+ * get the full document, and forwards document updates and presence between
+ * the connected clients. It never interprets the document itself.
+ *
+ *   npm run relay            # ws://localhost:1234
+ *   PORT=4000 npm run relay
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import * as Y from 'yjs';
+import { CollabMessage, CollabPeer, decodeUpdate, encodeUpdate, isPeer, parseMessage } from '../services/collab/protocol';
+
+const PORT = Number(process.env.PORT) || 1234;
+
+interface Room {
+  state: Uint8Array;
+  clients: Map<WebSocket, CollabPeer | null>;
+}
+
+const rooms = new Map<string, Room>();
+
+const getRoom = (name: string): Room => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { state: Y.encodeStateAsUpdate(new Y.Doc()), clients: new Map() };
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+const send = (socket: WebSocket, message: CollabMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, from: WebSocket, message: CollabMessage) => {
+  room.clients.forEach((_, socket) => {
+    if (socket !== from) send(socket, message);
+  });
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket, request) => {
+  // A failing socket only ends its own connection, never the relay
+  socket.on('error', (err) => console.error('Socket error', err));
+  let name: string;
+  try {
+    name = decodeURIComponent((request.url || '/').slice(1).split('?')[0]);
+  } catch {
+    socket.close(1008, 'Malformed room name');
+    return;
+  }
+  if (!name) {
+    socket.close(1008, 'Missing room');
+    return;
+  }
+  const room = getRoom(name);
+  room.clients.set(socket, null);
+
+  send(socket, { type: 'sync', update: encodeUpdate(room.state) });
+  room.clients.forEach(peer => {
+    if (peer) send(socket, { type: 'presence', peer });
+  });
+
+  socket.on('message', (data) => {
+    const message = parseMessage(data.toString());
+    if (!message) return;
+    switch (message.type) {
+      case 'update':
+        try {
+          room.state = Y.mergeUpdates([room.state, decodeUpdate(message.update)]);
+        } catch (err) {
+          console.error(`Rejected a malformed update in room ${name}`, err);
+          return;
+        }
+        broadcast(room, socket, message);
+        break;
+      case 'presence':
+        if (!isPeer(message.peer)) return;
+        room.clients.set(socket, message.peer);
+        broadcast(room, socket, message);
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    const peer = room.clients.get(socket);
+    room.clients.delete(socket);
+    if (peer) broadcast(room, socket, { type: 'leave', clientId: peer.clientId });
+    // The document lives only as long as someone has the room open
+    if (room.clients.size === 0 && rooms.get(name) === room) rooms.delete(name);
+  });
+});
+
+server.on('listening', () => console.log(`Collaboration relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,682 @@
+
+import {
+  AssignmentResult, AssignmentType, FileData, FlashcardKind, GradedAnswer, PracticeFormat, PracticeQuestion, Question, VerificationConfidence
+} from "../types";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenAICompatibleProvider } from "./providers/openai";
+import { MockProvider } from "./providers/mock";
+import { loadAIConfig, saveAIOverride } from "./providers/config";
+import { canonicalMarkdown } from "./markdown";
+import { withRetry } from "./retry";
+import { parseStructured } from "./providers/validation";
+import { learningView, LEARNING_MODE_RULES } from "./learning";
+import {
+  AIConfig, AIOperation, ChatSession, ChatTurn, GenerateRequest, JsonSchema, LLMProvider, OperationConfig,
+  ProviderId, TokenUsage, ToolDefinition
+} from "./providers/types";
+import { estimateTokens } from "./usage";
+
+// First pass: find and classify the questions without solving them
+const outlineSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    type: { type: 'string', enum: Object.values(AssignmentType) },
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          question_text: { type: 'string' },
+          language: { type: 'string', description: 'Programming language, for questions that need code.' },
+          requires_execution: { type: 'boolean' },
+          source_file: { type: 'integer', description: '1-based number of the attachment the question appears in.' },
+          source_page: { type: 'integer', description: '1-based page number within that attachment.' }
+        },
+        required: ["id", "question_text", "source_file"]
+      }
+    }
+  },
+  required: ["title", "type", "questions"]
+};
+
+// Model output for `outlineSchema`
+interface OutlineQuestion {
+  id: string;
+  question_text: string;
+  language?: string;
+  requires_execution?: boolean;
+  source_file: number;
+  source_page?: number;
+}
+
+interface Outline {
+  title: string;
+  type: AssignmentType;
+  questions: OutlineQuestion[];
+}
+
+// Attachment and page numbers are 1-based; anything else is ignored
+const positiveInteger = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+
+const solutionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    explanation: { type: 'string', description: 'Step-by-step explanation. Write math in LaTeX: $...$ inline, $$...$$ for display equations.' },
+    solution: { type: 'string', description: 'Final answer. Write math in LaTeX: $...$ inline, $$...$$ for display equations.' },
+    code: { type: 'string', description: 'Complete, runnable code when the question asks for a program.' },
+    language: { type: 'string' }
+  },
+  required: ["explanation", "solution"]
+};
+
+// Verification of theory answers: an independent solve compared against the original
+const comparisonSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'], description: 'How confident you are that the original answer is correct.' },
+    summary: { type: 'string', description: 'One sentence on whether the two solutions agree.' },
+    discrepancies: { type: 'array', items: { type: 'string' }, description: 'Each concrete disagreement or error found in the original answer.' }
+  },
+  required: ["confidence", "summary", "discrepancies"]
+};
+
+// Verification of coding answers: a test program appended to the solution code
+const testSuiteSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    tests: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Short identifier without spaces or colons.' },
+          description: { type: 'string' }
+        },
+        required: ["name"]
+      }
+    },
+    harness: { type: 'string', description: 'Test code that runs after the solution code in the same file.' }
+  },
+  required: ["tests", "harness"]
+};
+
+const hintsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    hints: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Hints ordered from a gentle nudge to nearly the full working. Write math in LaTeX: $...$ inline, $$...$$ for display equations.'
+    }
+  },
+  required: ["hints"]
+};
+
+const practiceSetSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: ['multiple_choice', 'short_answer', 'coding'] },
+          prompt: { type: 'string' },
+          choices: { type: 'array', items: { type: 'string' }, description: 'Multiple choice only: 4 options.' },
+          correct_choice: { type: 'integer', description: 'Multiple choice only: 0-based index of the correct option.' },
+          model_answer: { type: 'string', description: 'Short answer: the reference answer. Coding: a reference solution.' },
+          rubric: { type: 'string', description: 'Short answer only: what a full-credit answer must contain.' },
+          language: { type: 'string' },
+          starter_code: { type: 'string', description: 'Coding only: function signature or skeleton for the student.' },
+          test_harness: { type: 'string', description: 'Coding only: test code appended after the student code.' },
+          test_names: { type: 'array', items: { type: 'string' }, description: 'Coding only: the names the harness reports.' }
+        },
+        required: ["format", "prompt"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+const rubricGradeSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', description: 'Between 0 (wrong) and 1 (fully correct).' },
+    feedback: { type: 'string', description: 'Two or three sentences addressed to the student.' }
+  },
+  required: ["score", "feedback"]
+};
+
+// Grading mode: the student's answer to every question, found in their submission
+const matchedAnswersSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    answers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question_id: { type: 'string' },
+          answer: { type: 'string', description: "The student's answer, transcribed verbatim. Empty if they did not answer." }
+        },
+        required: ["question_id", "answer"]
+      }
+    }
+  },
+  required: ["answers"]
+};
+
+const gradedAnswerSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    rubric: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          points: { type: 'number', description: 'Maximum points for this criterion.' },
+          awarded: { type: 'number', description: 'Points the student earned for this criterion.' },
+          comment: { type: 'string', description: 'Why these points were awarded.' }
+        },
+        required: ["description", "points", "awarded"]
+      }
+    },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          excerpt: { type: 'string', description: "A short verbatim quote from the student's answer." },
+          comment: { type: 'string' }
+        },
+        required: ["excerpt", "comment"]
+      }
+    },
+    feedback: { type: 'string', description: 'Overall feedback for the student on this question.' }
+  },
+  required: ["rubric", "comments", "feedback"]
+};
+
+const flashcardsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['concept', 'problem'] },
+          question_id: { type: 'string', description: 'ID of the question the card comes from.' },
+          front: { type: 'string', description: 'A concept to define or a short problem to solve.' },
+          back: { type: 'string', description: 'The definition or the answer, kept short.' }
+        },
+        required: ["kind", "front", "back"]
+      }
+    }
+  },
+  required: ["cards"]
+};
+
+// Selection refinement: only the rewritten passage, which replaces the selection in place
+const refineSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    replacement: { type: 'string', description: 'The rewritten passage only, without the text around it.' }
+  },
+  required: ["replacement"]
+};
+
+const chatSummarySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' }
+  },
+  required: ["summary"]
+};
+
+// Surrounding text sent with a selection to refine, on each side
+const REFINE_CONTEXT_CHARS = 1500;
+
+const FORMAT_RULES = `Format text as Markdown (lists, **bold**, fenced code blocks). IMPORTANT: Write all math as LaTeX, using $...$ for inline math and $$...$$ for display equations; never put math in backticks. Use Markdown backticks only for code.`;
+
+export interface SolveOptions {
+  // Set when regenerating: how the new solution should differ from the current one
+  guidance?: string;
+  signal?: AbortSignal;
+}
+
+// Define the tool for editing the assignment
+const updateAssignmentTool: ToolDefinition = {
+  name: 'update_assignment_content',
+  description: 'Update specific parts of the assignment content like questions, explanations, or solutions based on user feedback.',
+  parameters: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        description: 'An array of question objects containing the updated fields. You only need to provide the ID and the fields that changed.',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'The unique ID of the question to update.' },
+            question_text: { type: 'string', description: 'The updated text for the question.' },
+            explanation: { type: 'string', description: 'The updated step-by-step explanation. Math in LaTeX: $...$ inline, $$...$$ display.' },
+            solution: { type: 'string', description: 'The updated final answer/solution. Math in LaTeX: $...$ inline, $$...$$ display.' },
+            code: { type: 'string', description: 'The updated code block.' },
+            language: { type: 'string', description: 'The programming language for the code.' }
+          },
+          required: ['id']
+        }
+      },
+      title: { type: 'string', description: 'Updated title for the entire assignment.' }
+    }
+  }
+};
+
+const insertQuestionTool: ToolDefinition = {
+  name: 'insert_question',
+  description: 'Add a new question, with its worked answer, to the assignment.',
+  parameters: {
+    type: 'object',
+    properties: {
+      after_id: { type: 'string', description: 'ID of the question the new one goes after. Omit to add it at the end.' },
+      question_text: { type: 'string', description: 'The question. Math in LaTeX: $...$ inline, $$...$$ display.' },
+      explanation: { type: 'string', description: 'Step-by-step explanation. Math in LaTeX: $...$ inline, $$...$$ display.' },
+      solution: { type: 'string', description: 'The final answer. Math in LaTeX: $...$ inline, $$...$$ display.' },
+      code: { type: 'string', description: 'Code, for programming questions.' },
+      language: { type: 'string', description: 'The programming language of the code.' }
+    },
+    required: ['question_text']
+  }
+};
+
+const deleteQuestionTool: ToolDefinition = {
+  name: 'delete_question',
+  description: 'Remove a question and its answer from the assignment.',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'ID of the question to remove.' }
+    },
+    required: ['id']
+  }
+};
+
+const reorderQuestionsTool: ToolDefinition = {
+  name: 'reorder_questions',
+  description: 'Change the order of the questions in the assignment.',
+  parameters: {
+    type: 'object',
+    properties: {
+      order: { type: 'array', items: { type: 'string' }, description: 'Every question ID exactly once, in the new order.' }
+    },
+    required: ['order']
+  }
+};
+
+const setLanguageTool: ToolDefinition = {
+  name: 'set_language',
+  description: "Change the programming language a question's code is labelled and run as.",
+  parameters: {
+    type: 'object',
+    properties: {
+      question_id: { type: 'string', description: 'ID of the question.' },
+      language: { type: 'string', description: 'The language, e.g. python, javascript, java.' }
+    },
+    required: ['question_id', 'language']
+  }
+};
+
+const setAssignmentTypeTool: ToolDefinition = {
+  name: 'set_assignment_type',
+  description: 'Change what kind of assignment this is.',
+  parameters: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['theory', 'coding', 'mixed'] }
+    },
+    required: ['type']
+  }
+};
+
+const setImageCaptionTool: ToolDefinition = {
+  name: 'set_image_caption',
+  description: 'Set or change the caption of an image attached to a question. Use an empty caption to remove it.',
+  parameters: {
+    type: 'object',
+    properties: {
+      question_id: { type: 'string', description: 'ID of the question the image belongs to.' },
+      asset_id: { type: 'string', description: 'ID of the image, from the question\'s assets.' },
+      caption: { type: 'string', description: 'The new caption.' }
+    },
+    required: ['question_id', 'asset_id', 'caption']
+  }
+};
+
+const runCodeTool: ToolDefinition = {
+  name: 'run_code',
+  description: "Run code and get its real output: stdout, stderr and exit code. Without `code`, runs the given question's code and shows the output in the document.",
+  parameters: {
+    type: 'object',
+    properties: {
+      question_id: { type: 'string', description: 'ID of the question whose code to run.' },
+      code: { type: 'string', description: 'Code to run instead of the question\'s own, e.g. a quick experiment. It is not added to the document.' },
+      language: { type: 'string', description: "Language of `code`. Defaults to the question's language." }
+    }
+  }
+};
+
+const explainSelectionTool: ToolDefinition = {
+  name: 'explain_selection',
+  description: 'Get the passage the student has selected in the document and the question it belongs to. Call this when they ask about "this", "the highlighted part" or their selection, then explain it in your reply.',
+  parameters: {
+    type: 'object',
+    properties: {
+      focus: { type: 'string', description: 'Optional: what the student wants to know about the selection.' }
+    }
+  }
+};
+
+const replaceSelectionTool: ToolDefinition = {
+  name: 'replace_selection',
+  description: "Replace exactly the passage the student selected in the document, leaving the rest of the field as it is. Prefer this over rewriting the whole field when the student asks to change their selection.",
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The new passage. Math in LaTeX: $...$ inline, $$...$$ display.' }
+    },
+    required: ['text']
+  }
+};
+
+const TUTOR_TOOLS = [
+  updateAssignmentTool, insertQuestionTool, deleteQuestionTool, reorderQuestionsTool, setLanguageTool,
+  setAssignmentTypeTool, setImageCaptionTool, runCodeTool, explainSelectionTool, replaceSelectionTool
+];
+
+// Image data can be megabytes; the tutor only needs to know which images exist
+const withoutImageData = (result: AssignmentResult): AssignmentResult => ({
+  ...result,
+  questions: result.questions.map(q => q.assets ? { ...q, assets: q.assets.map(a => ({ ...a, url: '(image)' })) } : q)
+});
+
+/**
+ * Entry point for every model-backed operation. Prompts, schemas and tools live
+ * here; which provider and model serves each operation comes from the AI config.
+ */
+export class AIService {
+  private providers: Record<ProviderId, LLMProvider>;
+  private config: AIConfig;
+
+  constructor(providers?: Partial<Record<ProviderId, LLMProvider>>) {
+    this.providers = {
+      gemini: new GeminiProvider(),
+      openai: new OpenAICompatibleProvider(),
+      mock: new MockProvider(),
+      ...providers
+    };
+    this.config = loadAIConfig();
+  }
+
+  getConfig(): AIConfig {
+    return this.config;
+  }
+
+  configure(operation: AIOperation, override: OperationConfig) {
+    this.config = { ...this.config, [operation]: override };
+    saveAIOverride(operation, override);
+  }
+
+  private resolve(operation: AIOperation): { provider: LLMProvider; model: string } {
+    const { provider, model } = this.config[operation];
+    const instance = this.providers[provider];
+    if (!instance) {
+      throw new Error(`Unknown AI provider "${provider}" configured for ${operation}.`);
+    }
+    return { provider: instance, model };
+  }
+
+  // Structured generation: malformed or off-schema output and transient provider errors are retried
+  private generateStructured<T>(
+    operation: AIOperation,
+    request: Pick<GenerateRequest, 'prompt' | 'files'>,
+    schema: JsonSchema,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { provider, model } = this.resolve(operation);
+    return withRetry(async () => {
+      const text = await provider.generate({ ...request, operation, model, responseSchema: schema, signal });
+      return parseStructured<T>(text, schema);
+    }, { signal });
+  }
+
+  // All parts go into every request so questions spanning pages or files are seen together
+  private attachments(files: FileData[]) {
+    const manifest = files
+      .map((f, i) => `${i + 1}. ${f.name} (${f.type}${f.pageCount ? `, ${f.pageCount} pages` : ''})`)
+      .join('\n');
+    return { manifest, inline: files.map(f => ({ base64: f.base64, mimeType: f.type, name: f.name })) };
+  }
+
+  /**
+   * Finds and classifies every question. Returns the assignment with unsolved
+   * questions (empty explanation and solution) in document order.
+   */
+  async extractOutline(files: FileData[], signal?: AbortSignal): Promise<AssignmentResult> {
+    const { manifest, inline } = this.attachments(files);
+
+    const result = await this.generateStructured<Outline>('extraction', {
+      files: inline,
+      prompt: `Act as an expert academic professor. The assignment is split across these attachments, in order:\n${manifest}\n\nTreat them as one document: pages may continue each other, and some files (e.g. data sheets) may only provide supporting material. Some pages may be photos of printed or handwritten worksheets; transcribe handwriting carefully. Extract all questions verbatim, in order, without solving them. For each question, record the attachment number and page it starts on, and whether it needs code to be written and run. ${FORMAT_RULES} Classify the assignment as 'theory', 'coding', or 'mixed'. Return the data in JSON.`
+    }, outlineSchema, signal);
+
+    return {
+      title: canonicalMarkdown(result.title, true),
+      type: result.type,
+      questions: (result.questions || []).map((q): Question => {
+        const sourceFile = positiveInteger(q.source_file);
+        const file = sourceFile ? files[sourceFile - 1] : undefined;
+        const question: Question = {
+          id: String(q.id),
+          question_text: canonicalMarkdown(q.question_text || ''),
+          ...(q.language && { language: q.language }),
+          requires_execution: !!q.requires_execution,
+          explanation: ''
+        };
+        return file && sourceFile
+          ? { ...question, source: { fileIndex: sourceFile - 1, fileName: file.name, page: positiveInteger(q.source_page) } }
+          : question;
+      })
+    };
+  }
+
+  // Solves one question from the outline; the other questions are passed along for context
+  async solveQuestion(files: FileData[], outline: AssignmentResult, question: Question, options: SolveOptions = {}): Promise<Question> {
+    const { guidance, signal } = options;
+    const { manifest, inline } = this.attachments(files);
+    const others = outline.questions
+      .map((q, i) => `${i + 1}. [${q.id}] ${q.question_text}`)
+      .join('\n');
+    const alternative = guidance !== undefined && question.explanation
+      ? `\n\nThe student already has this solution:\n${question.explanation}${question.solution ? `\n\nFinal answer: ${question.solution}` : ''}${question.code ? `\n\nCode:\n${question.code}` : ''}\n\nWrite a new, alternative solution instead.${guidance ? ` ${guidance}` : ''}`
+      : '';
+
+    const solved = await this.generateStructured<any>('solving', {
+      files: inline,
+      prompt: `Act as an expert academic professor solving the assignment "${outline.title}" (${outline.type}). Attachments, in order:\n${manifest}\n\nAll questions in the assignment:\n${others}\n\nSolve only question ID: ${question.id}\n\n${question.question_text}${alternative}\n\nGive a detailed step-by-step explanation and the final answer.${question.requires_execution || question.language ? ` Include complete, runnable ${question.language || ''} code that prints its results.` : ''} ${FORMAT_RULES} Return the data in JSON.`
+    }, solutionSchema, signal);
+
+    return {
+      ...question,
+      explanation: canonicalMarkdown(solved.explanation),
+      solution: solved.solution && canonicalMarkdown(solved.solution),
+      code: solved.code || undefined,
+      language: solved.language || question.language,
+      execution: undefined,
+      execution_output: undefined,
+      verification: undefined,
+      hints: undefined
+    };
+  }
+
+  // Learning mode: a ladder of hints that leads to the existing solution without giving it away early
+  async generateHints(outline: AssignmentResult, question: Question, signal?: AbortSignal): Promise<string[]> {
+    const { hints } = await this.generateStructured<{ hints: string[] }>('hints', {
+      prompt: `Act as a patient tutor for the assignment "${outline.title}". The student wants to solve this question on their own:\n\n${question.question_text}\n\nThe reference solution (do not copy it into the early hints):\n${question.explanation}${question.solution ? `\n\nFinal answer: ${question.solution}` : ''}${question.code ? `\n\nCode:\n${question.code}` : ''}\n\nWrite 3 to 5 hints, each revealing a little more than the one before: start with a nudge towards the key idea, then the relevant concept or formula, then the approach, and end with most of the working but not the final answer.${question.code ? ' Do not write the complete program in any hint.' : ''} ${FORMAT_RULES} Return the data in JSON.`
+    }, hintsSchema, signal);
+    return hints.map(h => canonicalMarkdown(h)).filter(Boolean);
+  }
+
+  // New questions of the same type and difficulty; entries that cannot be graded are dropped
+  async generatePracticeSet(result: AssignmentResult, count: number, formats: PracticeFormat[], signal?: AbortSignal): Promise<Omit<PracticeQuestion, 'id'>[]> {
+    const originals = result.questions
+      .map((q, i) => `${i + 1}. ${q.question_text}${q.solution ? `\n   Answer: ${q.solution}` : ''}`)
+      .join('\n');
+    const { questions } = await this.generateStructured<{ questions: Omit<PracticeQuestion, 'id'>[] }>('practice', {
+      prompt: `Act as an expert academic professor. A student has finished the assignment "${result.title}" (${result.type}):\n${originals}\n\nWrite ${count} new practice questions on the same topics and at the same difficulty. Do not repeat the original questions. Use only these formats: ${formats.join(', ')}. Multiple choice questions have exactly 4 options and one correct answer. Short answer questions need a model answer and a rubric. Coding questions need starter code, a reference solution, and a test harness that will be appended after the student's code in the same file, with no test framework available; it must print nothing except exactly one line per test: "PASS <name>" or "FAIL <name>: <reason>", with names listed in test_names. ${FORMAT_RULES} Return the data in JSON.`
+    }, practiceSetSchema, signal);
+
+    return questions.filter(q => {
+      if (!formats.includes(q.format)) return false;
+      if (q.format === 'multiple_choice') {
+        return !!q.choices && q.choices.length >= 2 && q.correct_choice !== undefined && q.correct_choice >= 0 && q.correct_choice < q.choices.length;
+      }
+      if (q.format === 'coding') return !!q.test_harness && !!q.test_names?.length;
+      return !!q.model_answer;
+    }).map(q => ({
+      ...q,
+      prompt: canonicalMarkdown(q.prompt),
+      choices: q.choices?.map(c => canonicalMarkdown(c, true)),
+      model_answer: q.model_answer && q.format !== 'coding' ? canonicalMarkdown(q.model_answer) : q.model_answer
+    }));
+  }
+
+  // Grades a free-text practice answer against its model answer and rubric
+  async gradeShortAnswer(question: PracticeQuestion, response: string, signal?: AbortSignal): Promise<{ score: number; feedback: string }> {
+    const grade = await this.generateStructured<{ score: number; feedback: string }>('practice', {
+      prompt: `Grade a student's answer to a practice question.\n\nQuestion:\n${question.prompt}\n\nModel answer:\n${question.model_answer}\n\nRubric:\n${question.rubric || 'Full credit for an answer equivalent to the model answer.'}\n\nStudent answer:\n${response}\n\nGive partial credit where the rubric allows it. Judge the substance, not the wording. ${FORMAT_RULES} Return the data in JSON.`
+    }, rubricGradeSchema, signal);
+    return { score: Math.min(1, Math.max(0, grade.score)), feedback: canonicalMarkdown(grade.feedback) };
+  }
+
+  // Grading mode: finds and transcribes the student's answer to each outline question
+  async matchAnswers(outline: AssignmentResult, submission: FileData[], signal?: AbortSignal): Promise<Record<string, string>> {
+    const { manifest, inline } = this.attachments(submission);
+    const questions = outline.questions.map(q => `[${q.id}] ${q.question_text}`).join('\n\n');
+    const { answers } = await this.generateStructured<{ answers: { question_id: string; answer: string }[] }>('grading', {
+      files: inline,
+      prompt: `The attachments are a student's submission for the assignment "${outline.title}", in order:\n${manifest}\n\nThe questions, with their IDs:\n${questions}\n\nFor every question ID, find the student's answer and transcribe it verbatim, including working, code and handwriting. Answers may be out of order or labelled differently. Do not correct mistakes. ${FORMAT_RULES} Return the data in JSON.`
+    }, matchedAnswersSchema, signal);
+    return Object.fromEntries(answers.map(a => [String(a.question_id), canonicalMarkdown(a.answer)]));
+  }
+
+  // Grading mode: scores one answer against the supplied marking scheme, or a rubric written for the question
+  async gradeAnswer(outline: AssignmentResult, question: Question, answer: string, rubric?: string, signal?: AbortSignal): Promise<Omit<GradedAnswer, 'questionId' | 'answer'>> {
+    const scheme = rubric
+      ? `Marking scheme supplied by the teaching assistant (use only the part for this question, and keep its criteria and points):\n${rubric}`
+      : 'No marking scheme was supplied. Write a rubric for this question first: 2 to 5 criteria with points that reflect their weight, 10 points in total.';
+    const graded = await this.generateStructured<Omit<GradedAnswer, 'questionId' | 'answer'>>('grading', {
+      prompt: `Act as a fair, experienced teaching assistant grading the assignment "${outline.title}".\n\nQuestion:\n${question.question_text}\n\n${scheme}\n\nStudent answer:\n${answer}\n\nScore the answer against each criterion, giving partial credit where it is earned. Add inline comments that quote short excerpts of the answer exactly as written and say what is right or wrong there. Finish with constructive feedback addressed to the student. ${FORMAT_RULES} Return the data in JSON.`
+    }, gradedAnswerSchema, signal);
+    return {
+      rubric: graded.rubric.map(c => ({ ...c, awarded: Math.min(c.points, Math.max(0, c.awarded)) })),
+      comments: graded.comments,
+      feedback: canonicalMarkdown(graded.feedback)
+    };
+  }
+
+  // Flashcards: the key concepts of the explanations, plus small problems with their answers
+  async generateFlashcards(result: AssignmentResult, signal?: AbortSignal): Promise<{ kind: FlashcardKind; question_id?: string; front: string; back: string }[]> {
+    const questions = result.questions
+      .filter(q => q.explanation)
+      .map(q => `[${q.id}] ${q.question_text}\n\nExplanation:\n${q.explanation}${q.solution ? `\n\nAnswer: ${q.solution}` : ''}`)
+      .join('\n\n---\n\n');
+    const { cards } = await this.generateStructured<{ cards: { kind: FlashcardKind; question_id?: string; front: string; back: string }[] }>('flashcards', {
+      prompt: `Create study flashcards from the solved assignment "${result.title}":\n\n${questions}\n\nFor each question, write concept cards (a term, theorem or idea on the front, its definition on the back) for the key ideas in the explanation, and one or two problem cards (a short problem like the question on the front, its answer on the back). Keep both sides short enough to read at a glance. Skip trivia. ${FORMAT_RULES} Return the data in JSON.`
+    }, flashcardsSchema, signal);
+    return cards
+      .filter(c => c.front.trim() && c.back.trim())
+      .map(c => ({ ...c, front: canonicalMarkdown(c.front), back: canonicalMarkdown(c.back) }));
+  }
+
+  // Rewrites a selected passage of one field; the text around it is context, not to be repeated
+  async refineSelection(result: AssignmentResult, location: string, passage: { before: string; selected: string; after: string }, instruction: string, signal?: AbortSignal): Promise<string> {
+    const clip = (text: string, keep: 'start' | 'end') =>
+      text.length <= REFINE_CONTEXT_CHARS ? text : keep === 'end' ? `...${text.slice(-REFINE_CONTEXT_CHARS)}` : `${text.slice(0, REFINE_CONTEXT_CHARS)}...`;
+    const { replacement } = await this.generateStructured<{ replacement: string }>('refine', {
+      prompt: `You are editing the ${location} of the assignment "${result.title}". The student selected a passage and asked: ${instruction}\n\nText before the passage:\n${clip(passage.before, 'end') || '(none)'}\n\nPassage:\n${passage.selected}\n\nText after the passage:\n${clip(passage.after, 'start') || '(none)'}\n\nReturn only the new passage. It replaces the selection exactly where it stands, so it must read naturally between the text before and after it; do not repeat that text. ${FORMAT_RULES} Return the data in JSON.`
+    }, refineSchema, signal);
+    return replacement;
+  }
+
+  // Asks for an independent judgement of the original answer against a second solve
+  async compareSolutions(outline: AssignmentResult, original: Question, independent: Question, signal?: AbortSignal): Promise<{ confidence: VerificationConfidence; summary: string; discrepancies: string[] }> {
+    const render = (q: Question) => `${q.explanation}\n\nFinal answer: ${q.solution || '(none)'}`;
+    return this.generateStructured('verification', {
+      prompt: `You are checking an answer to a question from the assignment "${outline.title}".\n\nQuestion:\n${original.question_text}\n\nOriginal answer:\n${render(original)}\n\nIndependent answer:\n${render(independent)}\n\nCompare the two. Check the original answer's reasoning and final result; where they disagree, work out which one is right. List every concrete discrepancy or error in the original answer. ${FORMAT_RULES} Return the data in JSON.`
+    }, comparisonSchema, signal);
+  }
+
+  // Writes test cases for a coding answer; the harness prints one PASS/FAIL line per test
+  async generateTestCases(question: Question, signal?: AbortSignal): Promise<{ tests: { name: string; description?: string }[]; harness: string }> {
+    const language = question.language || 'python';
+    return this.generateStructured('verification', {
+      prompt: `Write test cases for this ${language} solution.\n\nQuestion:\n${question.question_text}\n\nSolution code:\n${question.code}\n\nWrite between 3 and 6 test cases that check the behaviour the question asks for, including edge cases. The harness is ${language} code that will be appended to the end of the solution code and run in the same file, with no test framework available. It must not print anything except exactly one line per test: "PASS <name>" when it passes, or "FAIL <name>: <reason>" when it fails or raises. Return the data in JSON.`
+    }, testSuiteSchema, signal);
+  }
+
+  async executeCode(code: string, language: string, signal?: AbortSignal): Promise<string> {
+    const { provider, model } = this.resolve('simulation');
+    const text = await withRetry(() => provider.generate({
+      operation: 'simulation',
+      model,
+      prompt: `Simulate terminal output for ${language}:\n\n${code}`,
+      signal
+    }), { signal });
+    return text || "No output.";
+  }
+
+  // Condenses earlier tutor conversation into notes; the usage is estimated as structured calls don't report it
+  async summarizeChat(result: AssignmentResult, previousSummary: string | undefined, turns: ChatTurn[], signal?: AbortSignal): Promise<{ summary: string; usage: TokenUsage }> {
+    const transcript = turns.map(t => `${t.role === 'user' ? 'Student' : 'Tutor'}: ${t.text}`).join('\n\n');
+    const prompt = `Summarize a tutoring conversation about the assignment "${result.title}" so the tutor can continue it without the full transcript.${previousSummary ? `\n\nSummary of the conversation before this part:\n${previousSummary}` : ''}\n\nConversation:\n${transcript}\n\nWrite one summary covering all of it: what the student asked for, what was explained, edits made to the document and what they accepted or rejected, and anything left open. Refer to questions by number. Keep it under 300 words. Return the data in JSON.`;
+    const { summary } = await this.generateStructured<{ summary: string }>('chat', { prompt }, chatSummarySchema, signal);
+    return { summary, usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(summary) } };
+  }
+
+  // The tutor's view of the document; rebuilt after every edit so the model never works from a stale copy
+  private tutorInstruction(result: AssignmentResult, summary?: string): string {
+    const context = JSON.stringify(result.learningMode ? learningView(withoutImageData(result)) : withoutImageData(result), null, 2);
+    return `You are AceAssign AI Tutor. You help students with their assignment: "${result.title}".
+        CONTEXT (the document as it is now; it is updated whenever the document changes): ${context}
+
+        CAPABILITY: You can directly edit the assignment solution on the screen!
+        If the user asks to change, simplify, rewrite, or correct any part of the solution, use the 'update_assignment_content' tool to apply those changes immediately.
+        You can also add, remove and reorder questions, set a question's language, change the assignment type and caption images. The student reviews every edit before it is applied; the tool result tells you what they accepted.
+        Use 'run_code' to check code by actually running it instead of guessing its output, and 'explain_selection' when the student asks about a passage they selected. To change only the selected passage, use 'replace_selection' rather than rewriting the whole field. You can call several tools in a row before answering.
+        Always explain what you've changed to the student after using the tool.
+        If they ask for a general explanation without asking for an edit, just chat normally.${result.learningMode ? `\n\n${LEARNING_MODE_RULES}` : ''}${summary ? `\n\nEARLIER CONVERSATION (summarized): ${summary}` : ''}`;
+  }
+
+  startChat(result: AssignmentResult, history: ChatTurn[] = [], summary?: string): ChatSession {
+    const { provider, model } = this.resolve('chat');
+    return provider.startChat({
+      operation: 'chat',
+      model,
+      history,
+      tools: TUTOR_TOOLS,
+      systemInstruction: this.tutorInstruction(result, summary)
+    });
+  }
+
+  // Gives a running chat the current document (and summary) from its next message on
+  refreshChat(session: ChatSession, result: AssignmentResult, summary?: string) {
+    session.updateSystemInstruction(this.tutorInstruction(result, summary));
+  }
+}
+
+export const aiService = new AIService();
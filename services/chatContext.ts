@@ -0,0 +1,61 @@
+import { ChatMessage } from "../types";
+import { ChatTurn } from "./providers/types";
+import { estimateTokens } from "./usage";
+
+// Replayed history above this is condensed into a summary before the next message
+export const HISTORY_TOKEN_BUDGET = 6000;
+// How much of the latest conversation stays word for word after summarizing
+const RECENT_TOKEN_BUDGET = 2000;
+// The exchange the student is in the middle of is never summarized
+const MIN_RECENT_MESSAGES = 2;
+
+export interface ChatContext {
+  // Summary of everything before `turns`
+  summary?: string;
+  turns: ChatTurn[];
+}
+
+const lastSummaryIndex = (messages: ChatMessage[]) => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].isSummary) return i;
+  }
+  return -1;
+};
+
+const isTurn = (m: ChatMessage) => !m.isSystem && !m.isSummary && !!m.text;
+
+/**
+ * What the tutor is given of a transcript: the latest summary and the turns
+ * after it. The transcript itself keeps every message for the student.
+ */
+export const chatContext = (messages: ChatMessage[]): ChatContext => {
+  const last = lastSummaryIndex(messages);
+  return {
+    summary: last === -1 ? undefined : messages[last].text,
+    turns: messages.slice(last + 1).filter(isTurn).map(m => ({ role: m.role, text: m.text }))
+  };
+};
+
+export const contextTokens = ({ summary, turns }: ChatContext): number =>
+  estimateTokens(summary) + turns.reduce((sum, t) => sum + estimateTokens(t.text), 0);
+
+/**
+ * Index of the first message to keep verbatim once the replayed history is
+ * over budget; everything between the last summary and it gets summarized.
+ * The kept part starts with a student message. Null when nothing needs to go.
+ */
+export const summaryCutoff = (messages: ChatMessage[]): number | null => {
+  if (contextTokens(chatContext(messages)) <= HISTORY_TOKEN_BUDGET) return null;
+  const first = lastSummaryIndex(messages) + 1;
+  let kept = 0;
+  let tokens = 0;
+  let cutoff: number | null = null;
+  for (let i = messages.length - 1; i > first; i--) {
+    if (!isTurn(messages[i])) continue;
+    kept++;
+    tokens += estimateTokens(messages[i].text);
+    if (kept > MIN_RECENT_MESSAGES && tokens > RECENT_TOKEN_BUDGET) break;
+    if (messages[i].role === 'user') cutoff = i;
+  }
+  return cutoff !== null && messages.slice(first, cutoff).some(isTurn) ? cutoff : null;
+};
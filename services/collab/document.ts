@@ -0,0 +1,120 @@
+import * as Y from 'yjs';
+import { AssignmentResult, Question } from '../../types';
+
+/**
+ * CRDT layout of an AssignmentResult:
+ * - `meta`: type, learningMode and the title as Y.Text
+ * - `order`: question ids in document order
+ * - `questions`: id -> Y.Map of that question's fields
+ *
+ * Prose and code fields are Y.Text so concurrent edits to different parts of
+ * the same block merge; every other field is a plain value where the last
+ * writer wins.
+ */
+const TEXT_FIELDS = ['question_text', 'explanation', 'solution', 'code'] as const;
+
+const isTextField = (key: string) => (TEXT_FIELDS as readonly string[]).includes(key);
+
+// Rewrites only the changed middle of a Y.Text so edits elsewhere in it survive the merge
+const updateText = (text: Y.Text, next: string) => {
+  const current = text.toString();
+  if (current === next) return;
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start && end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) end++;
+  text.delete(start, current.length - start - end);
+  text.insert(start, next.slice(start, next.length - end));
+};
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const writeFields = (map: Y.Map<any>, fields: Record<string, unknown>) => {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      map.delete(key);
+    } else if (isTextField(key) || key === 'title') {
+      let text = map.get(key);
+      if (!(text instanceof Y.Text)) {
+        text = new Y.Text();
+        map.set(key, text);
+      }
+      updateText(text, String(value));
+    } else if (!sameValue(map.get(key), value)) {
+      map.set(key, value);
+    }
+  }
+  for (const key of Array.from(map.keys())) {
+    if (!(key in fields) || fields[key] === undefined) map.delete(key);
+  }
+};
+
+const readFields = (map: Y.Map<any>): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  map.forEach((value, key) => {
+    fields[key] = value instanceof Y.Text ? value.toString() : value;
+  });
+  return fields;
+};
+
+// Brings the order array in line with `ids`, touching only the entries that moved
+const updateOrder = (order: Y.Array<string>, ids: string[]) => {
+  const current = order.toArray();
+  if (sameValue(current, ids)) return;
+  for (let i = current.length - 1; i >= 0; i--) {
+    if (!ids.includes(current[i])) order.delete(i, 1);
+  }
+  const kept = order.toArray();
+  if (!sameValue(kept, ids.filter(id => kept.includes(id)))) {
+    // Questions were reordered; rewrite the whole list
+    order.delete(0, order.length);
+    order.insert(0, ids);
+    return;
+  }
+  ids.forEach((id, index) => {
+    if (!kept.includes(id)) order.insert(index, [id]);
+  });
+};
+
+export const isDocumentEmpty = (doc: Y.Doc) => !doc.getMap('meta').has('type');
+
+/** Applies the differences between the document and `result` as CRDT operations. */
+export const writeDocument = (doc: Y.Doc, result: AssignmentResult, origin?: unknown) => {
+  doc.transact(() => {
+    const { questions: list, ...meta } = result;
+    writeFields(doc.getMap('meta'), meta);
+
+    const questions = doc.getMap<Y.Map<any>>('questions');
+    const ids = list.map(q => q.id);
+    for (const question of list) {
+      let map = questions.get(question.id);
+      if (!map) {
+        map = new Y.Map();
+        questions.set(question.id, map);
+      }
+      writeFields(map, question as unknown as Record<string, unknown>);
+    }
+    for (const id of Array.from(questions.keys())) {
+      if (!ids.includes(id)) questions.delete(id);
+    }
+    updateOrder(doc.getArray<string>('order'), ids);
+  }, origin);
+};
+
+export const readDocument = (doc: Y.Doc): AssignmentResult | null => {
+  if (isDocumentEmpty(doc)) return null;
+  const questions = doc.getMap<Y.Map<any>>('questions');
+  const seen = new Set<string>();
+  const list: Question[] = [];
+  // Concurrent inserts can leave an id in the order twice, or one whose question was deleted
+  for (const id of doc.getArray<string>('order').toArray()) {
+    const map = questions.get(id);
+    if (!map || seen.has(id)) continue;
+    seen.add(id);
+    list.push(readFields(map) as unknown as Question);
+  }
+  return { ...(readFields(doc.getMap('meta')) as Omit<AssignmentResult, 'questions'>), questions: list };
+};
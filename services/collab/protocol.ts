@@ -0,0 +1,55 @@
+// Wire format shared by the browser client and the relay server (server/relay.ts).
+// Messages are JSON text frames; Yjs updates travel base64-encoded.
+
+// Where a collaborator is working in the document, shown to the others as a presence cursor
+export interface CollabFocus {
+  questionId: string;
+}
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  focus: CollabFocus | null;
+  // Questions this peer's AI tutor is currently editing; nobody else may change them meanwhile
+  locks: string[];
+}
+
+export type CollabMessage =
+  // relay -> client, once per connection: the room's whole document so far
+  | { type: 'sync'; update: string }
+  // both ways: an incremental document change
+  | { type: 'update'; update: string }
+  // both ways: a client's presence; the relay forwards it to the rest of the room
+  | { type: 'presence'; peer: CollabPeer }
+  // relay -> client: a peer disconnected
+  | { type: 'leave'; clientId: string };
+
+export const encodeUpdate = (update: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < update.length; i++) binary += String.fromCharCode(update[i]);
+  return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string): Uint8Array =>
+  Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+
+// Presence comes from other clients, so it is checked before anyone stores or shows it
+export const isPeer = (value: unknown): value is CollabPeer => {
+  const peer = value as CollabPeer | null;
+  return !!peer && typeof peer === 'object' &&
+    typeof peer.clientId === 'string' &&
+    typeof peer.name === 'string' &&
+    typeof peer.color === 'string' &&
+    (peer.focus === null || (typeof peer.focus === 'object' && typeof peer.focus.questionId === 'string')) &&
+    Array.isArray(peer.locks) && peer.locks.every(id => typeof id === 'string');
+};
+
+export const parseMessage = (data: string): CollabMessage | null => {
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === 'string' ? message as CollabMessage : null;
+  } catch {
+    return null;
+  }
+};
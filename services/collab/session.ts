@@ -0,0 +1,195 @@
+import * as Y from 'yjs';
+import { CollabFocus, CollabMessage, CollabPeer, decodeUpdate, encodeUpdate, isPeer, parseMessage } from './protocol';
+
+export type CollabStatus = 'connecting' | 'connected' | 'offline';
+
+export interface CollabSnapshot {
+  status: CollabStatus;
+  // True once the room's document has been received at least once
+  synced: boolean;
+  self: CollabPeer;
+  peers: CollabPeer[];
+}
+
+const DEFAULT_RELAY_URL = 'ws://localhost:1234';
+const NAME_KEY = 'aceassign_collab_name';
+const MAX_RECONNECT_DELAY_MS = 10000;
+const PEER_COLORS = ['#2563eb', '#16a34a', '#db2777', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+// Marks transactions that came from the relay so they are not sent back to it
+const REMOTE = Symbol('remote');
+
+export const relayUrl = () => process.env.COLLAB_URL || DEFAULT_RELAY_URL;
+
+export const inviteLink = (room: string) =>
+  `${window.location.origin}${window.location.pathname}?room=${encodeURIComponent(room)}`;
+
+export const getDisplayName = () => {
+  let name = localStorage.getItem(NAME_KEY);
+  if (!name) {
+    name = `Guest ${Math.floor(1000 + Math.random() * 9000)}`;
+    localStorage.setItem(NAME_KEY, name);
+  }
+  return name;
+};
+
+export const setDisplayName = (name: string) => localStorage.setItem(NAME_KEY, name);
+
+/**
+ * One client's connection to a collaboration room. The shared Y.Doc is kept
+ * locally and stays editable while offline; whatever changed in between is
+ * exchanged on every (re)connect. Presence and locks are not part of the
+ * document, so they disappear with the peer that held them.
+ */
+export class CollabSession {
+  readonly doc = new Y.Doc();
+  private socket: WebSocket | null = null;
+  private reconnectDelay = 500;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private snapshot: CollabSnapshot;
+  private listeners = new Set<() => void>();
+  private remoteListeners = new Set<() => void>();
+
+  constructor(readonly room: string) {
+    const clientId = String(this.doc.clientID);
+    this.snapshot = {
+      status: 'connecting',
+      synced: false,
+      self: {
+        clientId,
+        name: getDisplayName(),
+        color: PEER_COLORS[this.doc.clientID % PEER_COLORS.length],
+        focus: null,
+        locks: []
+      },
+      peers: []
+    };
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE) this.send({ type: 'update', update: encodeUpdate(update) });
+    });
+    this.connect();
+  }
+
+  // For useSyncExternalStore: notifies on status and presence changes
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // Fires after document changes made by other peers have been applied
+  onRemoteChange(listener: () => void) {
+    this.remoteListeners.add(listener);
+    return () => { this.remoteListeners.delete(listener); };
+  }
+
+  setFocus(focus: CollabFocus | null) {
+    const current = this.snapshot.self.focus;
+    if (current?.questionId === focus?.questionId) return;
+    this.updateSelf({ focus });
+  }
+
+  setName(name: string) {
+    setDisplayName(name);
+    this.updateSelf({ name });
+  }
+
+  /**
+   * Claims the questions for the duration of an AI edit. Returns a release
+   * function, or null when another peer already holds one of them.
+   */
+  lock(questionIds: string[]): (() => void) | null {
+    if (questionIds.some(id => this.lockOwner(id))) return null;
+    this.updateSelf({ locks: [...new Set([...this.snapshot.self.locks, ...questionIds])] });
+    return () => this.updateSelf({ locks: this.snapshot.self.locks.filter(id => !questionIds.includes(id)) });
+  }
+
+  // The other peer holding a question's lock; when two claim it at once the lower client id wins
+  lockOwner(questionId: string): CollabPeer | undefined {
+    const holders = this.snapshot.peers.filter(p => p.locks.includes(questionId));
+    if (holders.length === 0) return undefined;
+    if (this.snapshot.self.locks.includes(questionId) && !holders.some(p => p.clientId < this.snapshot.self.clientId)) {
+      return undefined;
+    }
+    return holders[0];
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.doc.destroy();
+    this.listeners.clear();
+    this.remoteListeners.clear();
+  }
+
+  private connect() {
+    const socket = new WebSocket(`${relayUrl()}/${encodeURIComponent(this.room)}`);
+    this.socket = socket;
+    this.setSnapshot({ status: 'connecting' });
+
+    socket.onmessage = (event) => {
+      const message = parseMessage(String(event.data));
+      if (message) this.handleMessage(message);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setSnapshot({ status: 'offline', peers: [] });
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  private handleMessage(message: CollabMessage) {
+    switch (message.type) {
+      case 'sync': {
+        const roomState = decodeUpdate(message.update);
+        Y.applyUpdate(this.doc, roomState, REMOTE);
+        // Send back whatever the room is missing, e.g. edits made while offline
+        const missing = Y.encodeStateAsUpdate(this.doc, Y.encodeStateVectorFromUpdate(roomState));
+        this.send({ type: 'update', update: encodeUpdate(missing) }, true);
+        this.send({ type: 'presence', peer: this.snapshot.self }, true);
+        this.reconnectDelay = 500;
+        this.setSnapshot({ status: 'connected', synced: true });
+        this.remoteListeners.forEach(l => l());
+        break;
+      }
+      case 'update':
+        Y.applyUpdate(this.doc, decodeUpdate(message.update), REMOTE);
+        this.remoteListeners.forEach(l => l());
+        break;
+      case 'presence':
+        if (!isPeer(message.peer) || message.peer.clientId === this.snapshot.self.clientId) break;
+        this.setSnapshot({
+          peers: [...this.snapshot.peers.filter(p => p.clientId !== message.peer.clientId), message.peer]
+        });
+        break;
+      case 'leave':
+        this.setSnapshot({ peers: this.snapshot.peers.filter(p => p.clientId !== message.clientId) });
+        break;
+    }
+  }
+
+  // Until the first sync of a connection only the handshake may be sent; later edits reach the room through it
+  private send(message: CollabMessage, handshake = false) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    if (!handshake && this.snapshot.status !== 'connected') return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private updateSelf(changes: Partial<CollabPeer>) {
+    this.setSnapshot({ self: { ...this.snapshot.self, ...changes } });
+    this.send({ type: 'presence', peer: this.snapshot.self });
+  }
+
+  private setSnapshot(changes: Partial<CollabSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(l => l());
+  }
+}
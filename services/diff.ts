@@ -0,0 +1,61 @@
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// LCS tables grow with the product of both token counts; beyond this we show a plain replace
+const MAX_CELLS = 1_000_000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const push = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+/**
+ * Word-level diff between two strings (whitespace runs are kept as tokens so
+ * the segments concatenate back to the original texts).
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_CELLS) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ type: 'delete', text: before });
+    if (after) segments.push({ type: 'insert', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of a[i:] and b[j:]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(segments, 'delete', a[i++]);
+    } else {
+      push(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) push(segments, 'delete', a[i++]);
+  while (j < b.length) push(segments, 'insert', b[j++]);
+  return segments;
+};
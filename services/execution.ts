@@ -0,0 +1,13 @@
+
+import { ExecutionResult } from "../types";
+import { aiService } from "./ai";
+import { sandbox } from "./sandbox";
+
+// Runs code for real when a sandbox runner exists; other languages fall back to model simulation
+export const executeQuestionCode = async (code: string, language: string, signal?: AbortSignal): Promise<ExecutionResult> => {
+  if (sandbox.supports(language)) {
+    return sandbox.run(code, language, { signal });
+  }
+  const output = await aiService.executeCode(code, language, signal);
+  return { stdout: output, stderr: '', exitCode: 0, durationMs: 0, simulated: true };
+};
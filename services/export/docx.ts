@@ -0,0 +1,162 @@
+
+import {
+  AlignmentType, BorderStyle, Document, Footer, Header, HeadingLevel, ImageRun, Packer, PageNumber,
+  Paragraph, ShadingType, TextRun
+} from 'docx';
+import { AssignmentResult, Question } from '../../types';
+import { markdownToText } from '../markdown';
+import { rasterizeImage } from './text';
+
+const BODY_FONT = 'Calibri';
+const CODE_FONT = 'Consolas';
+// Widest an embedded image may be, in pixels (fits A4/Letter margins)
+const MAX_IMAGE_WIDTH = 600;
+
+const lines = (value: string) => markdownToText(value).split('\n');
+
+const sectionHeading = (text: string, color: string) =>
+  new Paragraph({
+    heading: HeadingLevel.HEADING_3,
+    spacing: { before: 240, after: 120 },
+    children: [new TextRun({ text: text.toUpperCase(), color, bold: true, size: 18, characterSpacing: 40 })]
+  });
+
+const bodyParagraphs = (value: string) =>
+  lines(value).map(line => new Paragraph({
+    spacing: { after: 120, line: 300 },
+    children: [new TextRun({ text: line, font: BODY_FONT, size: 22 })]
+  }));
+
+// One paragraph per line keeps indentation; shading and a border make it read as a block
+const codeBlock = (code: string, fill: string) =>
+  code.split('\n').map((line, i, all) => new Paragraph({
+    shading: { type: ShadingType.CLEAR, color: 'auto', fill },
+    border: {
+      left: { style: BorderStyle.SINGLE, size: 12, color: '2563EB', space: 8 },
+      ...(i === 0 && { top: { style: BorderStyle.SINGLE, size: 4, color: 'E2E8F0', space: 4 } }),
+      ...(i === all.length - 1 && { bottom: { style: BorderStyle.SINGLE, size: 4, color: 'E2E8F0', space: 4 } })
+    },
+    spacing: { after: 0 },
+    children: [new TextRun({ text: line || ' ', font: CODE_FONT, size: 18 })]
+  }));
+
+const assetParagraphs = async (q: Question): Promise<Paragraph[]> => {
+  const paragraphs: Paragraph[] = [];
+  for (const [i, asset] of (q.assets || []).entries()) {
+    try {
+      const image = await rasterizeImage(asset.url);
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / image.width);
+      paragraphs.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 240 },
+        children: [new ImageRun({
+          type: 'png',
+          data: image.data,
+          transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+          altText: { name: asset.caption || `Figure ${i + 1}`, description: asset.caption || '', title: asset.caption || '' }
+        })]
+      }));
+      paragraphs.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 240 },
+        children: [new TextRun({ text: asset.caption ? `Figure ${i + 1}: ${asset.caption}` : `Figure ${i + 1}`, italics: true, size: 18, color: '64748B' })]
+      }));
+    } catch (err) {
+      console.error("Skipping image in DOCX export", err);
+    }
+  }
+  return paragraphs;
+};
+
+const questionSection = async (q: Question, index: number): Promise<Paragraph[]> => {
+  const paragraphs: Paragraph[] = [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: index > 0,
+      spacing: { after: 120 },
+      children: [new TextRun({ text: `Question ${index + 1}`, font: BODY_FONT })]
+    }),
+    ...lines(q.question_text).map(line => new Paragraph({
+      spacing: { after: 120 },
+      children: [new TextRun({ text: line, bold: true, font: BODY_FONT, size: 24 })]
+    }))
+  ];
+
+  if (q.explanation) {
+    paragraphs.push(sectionHeading('Analytical Exposition', '2563EB'), ...bodyParagraphs(q.explanation));
+  }
+
+  paragraphs.push(...await assetParagraphs(q));
+
+  if (q.code) {
+    paragraphs.push(sectionHeading(`Code${q.language ? ` (${q.language})` : ''}`, '2563EB'), ...codeBlock(q.code, 'F8FAFC'));
+    if (q.execution_output) {
+      paragraphs.push(sectionHeading('Output', '475569'), ...codeBlock(q.execution_output, 'F1F5F9'));
+    }
+  }
+
+  if (q.solution) {
+    paragraphs.push(
+      sectionHeading('Synthesized Result', '1D4ED8'),
+      ...lines(q.solution).map(line => new Paragraph({
+        shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'EFF6FF' },
+        spacing: { after: 60 },
+        children: [new TextRun({ text: line, bold: true, font: BODY_FONT, size: 22, color: '1E3A8A' })]
+      }))
+    );
+  }
+
+  return paragraphs;
+};
+
+/**
+ * Builds a native Word document from the assignment entirely in the browser.
+ */
+export const exportDocx = async (result: AssignmentResult): Promise<Blob> => {
+  const title = markdownToText(result.title);
+  const body: Paragraph[] = [];
+  for (const [i, q] of result.questions.entries()) {
+    body.push(...await questionSection(q, i));
+  }
+
+  const doc = new Document({
+    title,
+    creator: 'AceAssign AI',
+    styles: {
+      default: { document: { run: { font: BODY_FONT, size: 22 } } }
+    },
+    sections: [{
+      headers: {
+        default: new Header({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ text: title, size: 16, color: '94A3B8' })]
+          })]
+        })
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: '94A3B8' })]
+          })]
+        })
+      },
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun({ text: title })] }),
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 480 },
+          children: [new TextRun({
+            text: `Assignment Dossier • ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+            size: 18,
+            color: '94A3B8'
+          })]
+        }),
+        ...body
+      ]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,39 @@
+
+import { AssignmentResult } from "../../types";
+import { exportDocx } from "./docx";
+import { exportPdf } from "./pdf";
+import { exportMarkdown } from "./markdown";
+import { exportLatex } from "./latex";
+import { exportNotebook } from "./notebook";
+import { downloadBlob, fileSlug } from "./text";
+import { createBundle } from "../share";
+
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'tex' | 'ipynb' | 'aceassign';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'pdf', label: 'PDF Document', mimeType: 'application/pdf' },
+  { format: 'docx', label: 'Word (.docx)', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { format: 'md', label: 'Markdown (.md)', mimeType: 'text/markdown' },
+  { format: 'tex', label: 'LaTeX (.tex)', mimeType: 'application/x-tex' },
+  { format: 'ipynb', label: 'Jupyter Notebook (.ipynb)', mimeType: 'application/x-ipynb+json' },
+  { format: 'aceassign', label: 'Shareable copy (.aceassign)', mimeType: 'application/gzip' }
+];
+
+const buildExport = async (result: AssignmentResult, format: ExportFormat, fontFamily: string): Promise<Blob | string> => {
+  switch (format) {
+    case 'pdf': return exportPdf(result, { fontFamily });
+    case 'docx': return exportDocx(result);
+    case 'md': return exportMarkdown(result);
+    case 'tex': return exportLatex(result);
+    case 'ipynb': return exportNotebook(result);
+    case 'aceassign': return new Blob([await createBundle(result)], { type: 'application/gzip' });
+  }
+};
+
+// Builds the document in the given format and hands it to the browser as a download
+export const downloadExport = async (result: AssignmentResult, format: ExportFormat, fontFamily = 'Inter'): Promise<void> => {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+  const output = await buildExport(result, format, fontFamily);
+  const blob = typeof output === 'string' ? new Blob([output], { type: `${mimeType};charset=utf-8` }) : output;
+  downloadBlob(blob, `${fileSlug(result.title)}.${format}`);
+};
@@ -0,0 +1,131 @@
+
+import { AssignmentResult, Question } from '../../types';
+import { markdownToText } from '../markdown';
+import { splitMath } from '../math';
+import { normalizeLanguage } from '../sandbox';
+
+// Languages the listings package highlights out of the box
+const LISTINGS_LANGUAGES: Record<string, string> = {
+  python: 'Python',
+  java: 'Java',
+  c: 'C',
+  'c++': 'C++',
+  cpp: 'C++',
+  sql: 'SQL',
+  r: 'R',
+  matlab: 'Matlab',
+  bash: 'bash',
+  shell: 'bash',
+  haskell: 'Haskell',
+  ruby: 'Ruby'
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '%': '\\%',
+  '#': '\\#',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+export const escapeLatex = (value: string): string =>
+  value.replace(/[\\{}$&%#_~^]/g, ch => LATEX_ESCAPES[ch]);
+
+// Blank lines separate paragraphs in LaTeX; single newlines between text need an explicit break
+const escapeText = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map(p => p.split('\n').map(escapeLatex).reduce((acc, line, i) =>
+      i === 0 ? line : acc.trim() && line.trim() ? `${acc} \\\\\n${line}` : `${acc}\n${line}`, ''))
+    .join('\n\n');
+
+// Text is escaped while formulas pass through as LaTeX math
+const paragraphs = (value: string): string =>
+  splitMath(markdownToText(value))
+    .map(segment => segment.type === 'text'
+      ? escapeText(segment.value)
+      : segment.display ? `\\[${segment.value}\\]` : `\\(${segment.value}\\)`)
+    .join('');
+
+const listing = (code: string, language?: string): string => {
+  const lang = language && LISTINGS_LANGUAGES[normalizeLanguage(language)];
+  // The listing ends at the first literal terminator, so break any inside the code
+  const body = code.replace(/\\end\{lstlisting\}/g, '\\end {lstlisting}').replace(/\n+$/, '');
+  return `\\begin{lstlisting}${lang ? `[language=${lang}]` : ''}\n${body}\n\\end{lstlisting}`;
+};
+
+const questionLatex = (q: Question, index: number): string => {
+  const parts: string[] = [
+    `\\section{Question ${index + 1}}`,
+    `{\\bfseries ${paragraphs(q.question_text)}\\par}`
+  ];
+
+  if (q.explanation) {
+    parts.push('\\subsection*{Explanation}', paragraphs(q.explanation));
+  }
+
+  // Uploaded figures live as data URLs, which LaTeX can't include; keep the caption in place
+  (q.assets || []).forEach((asset, i) => {
+    parts.push(`\\begin{center}\n\\fbox{\\parbox{0.8\\linewidth}{\\centering\\small Figure ${i + 1}${asset.caption ? `: ${escapeLatex(asset.caption)}` : ''}}}\n\\end{center}`);
+  });
+
+  if (q.code) {
+    parts.push(`\\subsection*{Code${q.language ? ` (${escapeLatex(q.language)})` : ''}}`, listing(q.code, q.language));
+    if (q.execution_output) {
+      parts.push('\\paragraph{Output}', listing(q.execution_output));
+    }
+  }
+
+  if (q.solution && !q.code) {
+    parts.push('\\subsection*{Result}', paragraphs(q.solution));
+  }
+
+  return parts.join('\n\n');
+};
+
+/**
+ * Builds a standalone article that compiles with pdflatex, xelatex or lualatex.
+ */
+export const exportLatex = (result: AssignmentResult): string => `\\documentclass[11pt,a4paper]{article}
+\\usepackage{iftex}
+\\ifPDFTeX
+  \\usepackage[utf8]{inputenc}
+  \\usepackage[T1]{fontenc}
+\\else
+  \\usepackage{fontspec}
+\\fi
+\\usepackage[margin=2cm]{geometry}
+\\usepackage{amsmath,amssymb}
+\\usepackage{xcolor}
+\\usepackage{listings}
+\\usepackage{hyperref}
+
+\\lstset{
+  basicstyle=\\ttfamily\\small,
+  backgroundcolor=\\color{gray!8},
+  frame=leftline,
+  rulecolor=\\color{blue!70},
+  breaklines=true,
+  columns=fullflexible,
+  keepspaces=true,
+  showstringspaces=false
+}
+
+\\title{${escapeLatex(markdownToText(result.title))}}
+\\date{\\today}
+
+\\begin{document}
+
+\\maketitle
+\\tableofcontents
+\\clearpage
+
+${result.questions.map(questionLatex).join('\n\n')}
+
+\\end{document}
+`;
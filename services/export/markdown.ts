@@ -0,0 +1,39 @@
+
+import { AssignmentResult, Question } from '../../types';
+import { canonicalMarkdown } from '../markdown';
+
+// A fence one backtick longer than any run inside the content can't be closed early
+export const fence = (content: string, info = ''): string => {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${info}\n${content.replace(/\n+$/, '')}\n${ticks}`;
+};
+
+const questionMarkdown = (q: Question, index: number): string => {
+  const parts: string[] = [`## Question ${index + 1}`, canonicalMarkdown(q.question_text)];
+
+  if (q.explanation) {
+    parts.push('### Explanation', canonicalMarkdown(q.explanation));
+  }
+
+  (q.assets || []).forEach((asset, i) => {
+    const caption = asset.caption ? `Figure ${i + 1}: ${asset.caption}` : `Figure ${i + 1}`;
+    parts.push(`![${caption}](${asset.url})`, `*${caption}*`);
+  });
+
+  if (q.code) {
+    parts.push(`### Code${q.language ? ` (${q.language})` : ''}`, fence(q.code, (q.language || '').toLowerCase()));
+    if (q.execution_output) {
+      parts.push('**Output**', fence(q.execution_output, 'text'));
+    }
+  }
+
+  if (q.solution && !q.code) {
+    parts.push('### Result', canonicalMarkdown(q.solution));
+  }
+
+  return parts.join('\n\n');
+};
+
+export const exportMarkdown = (result: AssignmentResult): string =>
+  [`# ${canonicalMarkdown(result.title, true)}`, ...result.questions.map(questionMarkdown)].join('\n\n') + '\n';
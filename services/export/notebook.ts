@@ -0,0 +1,123 @@
+
+import { AssignmentResult, Question } from '../../types';
+import { canonicalMarkdown } from '../markdown';
+import { normalizeLanguage } from '../sandbox';
+import { fence } from './markdown';
+
+interface NotebookCell {
+  cell_type: 'markdown' | 'code';
+  metadata: Record<string, unknown>;
+  source: string[];
+  attachments?: Record<string, Record<string, string>>;
+  execution_count?: number | null;
+  outputs?: unknown[];
+}
+
+// Kernels we know how to describe; anything else falls back to Python as the notebook language
+const KERNELS: Record<string, { kernelspec: Record<string, string>; language_info: Record<string, string> }> = {
+  python: {
+    kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+    language_info: { name: 'python', file_extension: '.py', mimetype: 'text/x-python' }
+  },
+  javascript: {
+    kernelspec: { name: 'javascript', display_name: 'JavaScript (Node.js)', language: 'javascript' },
+    language_info: { name: 'javascript', file_extension: '.js', mimetype: 'application/javascript' }
+  },
+  typescript: {
+    kernelspec: { name: 'tslab', display_name: 'TypeScript', language: 'typescript' },
+    language_info: { name: 'typescript', file_extension: '.ts', mimetype: 'text/typescript' }
+  },
+  r: {
+    kernelspec: { name: 'ir', display_name: 'R', language: 'R' },
+    language_info: { name: 'R', file_extension: '.r', mimetype: 'text/x-r-source' }
+  },
+  julia: {
+    kernelspec: { name: 'julia', display_name: 'Julia', language: 'julia' },
+    language_info: { name: 'julia', file_extension: '.jl', mimetype: 'application/julia' }
+  }
+};
+
+// nbformat stores multi-line strings as arrays of lines that keep their newline
+const sourceLines = (text: string): string[] =>
+  text.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\n` : line)).filter(line => line !== '');
+
+const markdownCell = (text: string, attachments?: NotebookCell['attachments']): NotebookCell => ({
+  cell_type: 'markdown',
+  metadata: {},
+  source: sourceLines(text),
+  ...(attachments && Object.keys(attachments).length > 0 && { attachments })
+});
+
+const codeOutputs = (q: Question): unknown[] => {
+  if (q.execution) {
+    const outputs: unknown[] = [];
+    if (q.execution.stdout) outputs.push({ output_type: 'stream', name: 'stdout', text: sourceLines(q.execution.stdout) });
+    if (q.execution.stderr) outputs.push({ output_type: 'stream', name: 'stderr', text: sourceLines(q.execution.stderr) });
+    return outputs;
+  }
+  return q.execution_output ? [{ output_type: 'stream', name: 'stdout', text: sourceLines(q.execution_output) }] : [];
+};
+
+// The notebook kernel follows the language most coding questions use
+const primaryLanguage = (result: AssignmentResult): string => {
+  const counts = new Map<string, number>();
+  for (const q of result.questions) {
+    if (!q.code || !q.language) continue;
+    const lang = normalizeLanguage(q.language);
+    counts.set(lang, (counts.get(lang) || 0) + 1);
+  }
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return top && KERNELS[top[0]] ? top[0] : 'python';
+};
+
+const questionCells = (q: Question, index: number, kernelLanguage: string): NotebookCell[] => {
+  const intro = [`## Question ${index + 1}`, canonicalMarkdown(q.question_text)];
+  if (q.explanation) intro.push('### Explanation', canonicalMarkdown(q.explanation));
+
+  // Inline images become cell attachments so the notebook stays self-contained
+  const attachments: NonNullable<NotebookCell['attachments']> = {};
+  (q.assets || []).forEach((asset, i) => {
+    const caption = asset.caption ? `Figure ${i + 1}: ${asset.caption}` : `Figure ${i + 1}`;
+    const match = asset.url.match(/^data:([^;,]+);base64,(.*)$/);
+    if (match) {
+      const name = `figure-${index + 1}-${i + 1}.${match[1].split('/')[1] || 'png'}`;
+      attachments[name] = { [match[1]]: match[2] };
+      intro.push(`![${caption}](attachment:${name})`);
+    } else {
+      intro.push(`![${caption}](${asset.url})`);
+    }
+  });
+
+  const cells = [markdownCell(intro.join('\n\n'), attachments)];
+
+  if (q.code) {
+    const language = q.language ? normalizeLanguage(q.language) : kernelLanguage;
+    if (language === kernelLanguage) {
+      cells.push({ cell_type: 'code', metadata: {}, execution_count: null, source: sourceLines(q.code), outputs: codeOutputs(q) });
+    } else {
+      // The notebook has a single kernel; other languages are kept as readable listings
+      const listing = [fence(q.code, language)];
+      if (q.execution_output) listing.push('**Output**', fence(q.execution_output, 'text'));
+      cells.push(markdownCell(listing.join('\n\n')));
+    }
+  }
+
+  if (q.solution && !q.code) {
+    cells.push(markdownCell(`### Result\n\n${canonicalMarkdown(q.solution)}`));
+  }
+
+  return cells;
+};
+
+/**
+ * Serializes the assignment as an nbformat 4 notebook: explanations become
+ * markdown cells, code becomes code cells carrying their recorded outputs.
+ */
+export const exportNotebook = (result: AssignmentResult): string => {
+  const language = primaryLanguage(result);
+  const cells = [
+    markdownCell(`# ${canonicalMarkdown(result.title, true)}`),
+    ...result.questions.flatMap((q, i) => questionCells(q, i, language))
+  ];
+  return JSON.stringify({ nbformat: 4, nbformat_minor: 4, metadata: KERNELS[language], cells }, null, 1) + '\n';
+};
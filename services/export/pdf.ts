@@ -0,0 +1,420 @@
+
+import { jsPDF } from 'jspdf';
+import { AssignmentResult, Question } from '../../types';
+import { containsMath, renderMathImage, splitMath } from '../math';
+import { markdownToText } from '../markdown';
+import { rasterizeImage } from './text';
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN_X = 20;
+const MARGIN_TOP = 25;
+const MARGIN_BOTTOM = 22;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const PT_TO_MM = 0.3528;
+const PX_TO_MM = 25.4 / 96;
+const TOC_LINE_HEIGHT = 8;
+
+// Full Google Fonts builds rather than a Latin-only subset, pinned by version so every export embeds the same files
+const googleFont = (family: string, version: string) => {
+  const base = `https://cdn.jsdelivr.net/npm/@expo-google-fonts/${family.toLowerCase().replace(/ /g, '-')}@${version}`;
+  const file = family.replace(/ /g, '');
+  return { regular: `${base}/400Regular/${file}_400Regular.ttf`, bold: `${base}/700Bold/${file}_700Bold.ttf` };
+};
+
+const FONT_FILES: Record<string, { regular: string; bold: string }> = {
+  'Inter': googleFont('Inter', '0.4.2'),
+  'Playfair Display': googleFont('Playfair Display', '0.4.2'),
+  'JetBrains Mono': googleFont('JetBrains Mono', '0.4.1'),
+  'Lexend': googleFont('Lexend', '0.4.1'),
+  'Caveat': googleFont('Caveat', '0.4.2'),
+  'Montserrat': googleFont('Montserrat', '0.4.2')
+};
+const CODE_FONT = 'JetBrains Mono';
+// Covers the most scripts of the faces above; stands in when the chosen one lacks characters
+const FALLBACK_FONT = 'Inter';
+
+// A font could not be embedded; the message is meant for the user
+export class FontEmbedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontEmbedError';
+  }
+}
+
+const fetchFontBase64 = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Font download failed (${response.status})`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Registers regular and bold TTFs; returns the jsPDF font name, or the built-in fallback for other families
+const embedFont = async (doc: jsPDF, family: string, fallback: string): Promise<string> => {
+  const files = FONT_FILES[family];
+  if (!files) return fallback;
+  try {
+    const [regular, bold] = await Promise.all([fetchFontBase64(files.regular), fetchFontBase64(files.bold)]);
+    doc.addFileToVFS(`${family}-400.ttf`, regular);
+    doc.addFont(`${family}-400.ttf`, family, 'normal');
+    doc.addFileToVFS(`${family}-700.ttf`, bold);
+    doc.addFont(`${family}-700.ttf`, family, 'bold');
+    return family;
+  } catch (err) {
+    console.error(`Could not embed ${family}`, err);
+    throw new FontEmbedError(`The ${family} font could not be embedded in the PDF. Reload the page and try again, or choose another font.`);
+  }
+};
+
+// Characters of the text that the embedded font has no glyph for
+const missingGlyphs = (doc: jsPDF, family: string, text: string): string[] => {
+  doc.setFont(family, 'normal');
+  const font = doc.getFont().metadata;
+  return [...new Set(text.replace(/\s/g, ''))].filter(c => !font.characterToGlyph(c.codePointAt(0)));
+};
+
+// The chosen face, or the fallback font when the chosen one cannot draw all of the text
+const embedBodyFont = async (doc: jsPDF, family: string, text: string): Promise<string> => {
+  const font = await embedFont(doc, family, 'helvetica');
+  if (font !== family || family === FALLBACK_FONT) return font;
+  const missing = missingGlyphs(doc, family, text);
+  if (missing.length === 0) return font;
+  console.warn(`${family} has no glyphs for ${missing.join(' ')}; using ${FALLBACK_FONT} instead`);
+  return embedFont(doc, FALLBACK_FONT, 'helvetica');
+};
+
+interface TextStyle {
+  font: string;
+  style?: 'normal' | 'bold';
+  size: number;
+  color?: [number, number, number];
+  lineHeight?: number;
+}
+
+// Pieces of a paragraph that contains math; widths and heights are in millimetres
+type FlowItem =
+  | { kind: 'word'; text: string; width: number }
+  | { kind: 'space' | 'break' }
+  | { kind: 'math'; display: boolean; dataUrl: string; width: number; height: number; descent: number };
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Minimal flow layout on top of jsPDF: tracks the cursor, wraps text and
+ * breaks to a new page whenever the next line or block would not fit.
+ */
+class PdfLayout {
+  y = MARGIN_TOP;
+
+  constructor(public doc: jsPDF) {}
+
+  get page() {
+    return this.doc.getNumberOfPages();
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN_TOP;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN_BOTTOM) this.newPage();
+  }
+
+  private apply(style: TextStyle) {
+    this.doc.setFont(style.font, style.style || 'normal');
+    this.doc.setFontSize(style.size);
+    this.doc.setTextColor(...(style.color || [30, 41, 59]));
+  }
+
+  text(value: string, style: TextStyle, options: { indent?: number; spaceAfter?: number; align?: 'left' | 'center' } = {}) {
+    this.apply(style);
+    const indent = options.indent || 0;
+    const lineHeight = style.size * PT_TO_MM * (style.lineHeight || 1.45);
+    for (const paragraph of value.split('\n')) {
+      const wrapped: string[] = paragraph ? this.doc.splitTextToSize(paragraph, CONTENT_WIDTH - indent) : [''];
+      for (const line of wrapped) {
+        this.ensureSpace(lineHeight);
+        this.apply(style);
+        const x = options.align === 'center' ? PAGE_WIDTH / 2 : MARGIN_X + indent;
+        this.doc.text(line, x, this.y + lineHeight * 0.75, { align: options.align || 'left' });
+        this.y += lineHeight;
+      }
+    }
+    this.y += options.spaceAfter ?? 2;
+  }
+
+  // Like text(), but LaTeX is drawn as rendered formulas: inline math flows with the
+  // words on the line, display math is centred on its own line
+  async richText(value: string, style: TextStyle, options: { spaceAfter?: number } = {}) {
+    if (!containsMath(value)) return this.text(value, style, options);
+    this.apply(style);
+    const color = style.color || [30, 41, 59];
+    const lineHeight = style.size * PT_TO_MM * (style.lineHeight || 1.45);
+    const items: FlowItem[] = [];
+
+    for (const segment of splitMath(value)) {
+      if (segment.type === 'text') {
+        segment.value.split(/(\n|[^\S\n]+)/).filter(Boolean).forEach(token => {
+          if (token === '\n') items.push({ kind: 'break' });
+          else if (!token.trim()) items.push({ kind: 'space' });
+          else items.push({ kind: 'word', text: token, width: this.doc.getTextWidth(token) });
+        });
+        continue;
+      }
+      try {
+        const image = await renderMathImage(segment.value, !!segment.display, style.size * 4 / 3, toHex(color));
+        items.push({
+          kind: 'math',
+          display: !!segment.display,
+          dataUrl: image.dataUrl,
+          width: image.width * PX_TO_MM,
+          height: image.height * PX_TO_MM,
+          descent: image.descent * PX_TO_MM
+        });
+      } catch (err) {
+        console.error("Could not render formula for PDF export", err);
+        const source = segment.display ? `$$${segment.value}$$` : `$${segment.value}$`;
+        items.push({ kind: 'word', text: source, width: this.doc.getTextWidth(source) });
+      }
+    }
+
+    const spaceWidth = this.doc.getTextWidth(' ');
+    let line: { item: FlowItem; x: number }[] = [];
+    let x = 0;
+    let pendingSpace = false;
+    // A display formula already ends its line, so the newline after it adds nothing
+    let afterDisplay = false;
+
+    const flush = (force = false) => {
+      if (!line.length && !force) return;
+      let ascent = lineHeight * 0.75;
+      let descent = lineHeight * 0.25;
+      for (const { item } of line) {
+        if (item.kind === 'math') {
+          ascent = Math.max(ascent, item.height - item.descent);
+          descent = Math.max(descent, item.descent);
+        }
+      }
+      this.ensureSpace(ascent + descent);
+      this.apply(style);
+      const baseline = this.y + ascent;
+      for (const { item, x: offset } of line) {
+        if (item.kind === 'word') {
+          this.doc.text(item.text, MARGIN_X + offset, baseline);
+        } else if (item.kind === 'math') {
+          this.doc.addImage(item.dataUrl, 'PNG', MARGIN_X + offset, baseline - item.height + item.descent, item.width, item.height);
+        }
+      }
+      this.y += ascent + descent;
+      line = [];
+      x = 0;
+      pendingSpace = false;
+    };
+
+    for (const item of items) {
+      if (item.kind === 'break') {
+        if (!afterDisplay) flush(true);
+        afterDisplay = false;
+      } else if (item.kind === 'space') {
+        pendingSpace = line.length > 0;
+      } else if (item.kind === 'math' && item.display) {
+        flush();
+        const scale = Math.min(1, CONTENT_WIDTH / item.width);
+        const width = item.width * scale;
+        const height = item.height * scale;
+        this.ensureSpace(height + 4);
+        this.doc.addImage(item.dataUrl, 'PNG', MARGIN_X + (CONTENT_WIDTH - width) / 2, this.y + 2, width, height);
+        this.y += height + 4;
+        afterDisplay = true;
+      } else if (item.kind === 'word' || item.kind === 'math') {
+        const gap = pendingSpace ? spaceWidth : 0;
+        if (line.length && x + gap + item.width > CONTENT_WIDTH) flush();
+        else x += gap;
+        line.push({ item, x });
+        x += item.width;
+        pendingSpace = false;
+        afterDisplay = false;
+      }
+    }
+    flush();
+    this.y += options.spaceAfter ?? 2;
+  }
+
+  // Shaded monospace block; long blocks continue on the next page line by line
+  code(value: string, font: string, fill: [number, number, number]) {
+    const style: TextStyle = { font, size: 8.5, color: [30, 41, 59], lineHeight: 1.4 };
+    this.apply(style);
+    const lineHeight = style.size * PT_TO_MM * 1.4;
+    const padding = 3;
+    const lines: string[] = value.split('\n').flatMap(l => l ? this.doc.splitTextToSize(l, CONTENT_WIDTH - padding * 2) : ['']);
+    let index = 0;
+    while (index < lines.length) {
+      this.ensureSpace(lineHeight + padding * 2);
+      const available = Math.floor((PAGE_HEIGHT - MARGIN_BOTTOM - this.y - padding * 2) / lineHeight);
+      const chunk = lines.slice(index, index + Math.max(1, available));
+      const height = chunk.length * lineHeight + padding * 2;
+      this.doc.setFillColor(...fill);
+      this.doc.setDrawColor(37, 99, 235);
+      this.doc.rect(MARGIN_X, this.y, CONTENT_WIDTH, height, 'F');
+      this.doc.setLineWidth(0.8);
+      this.doc.line(MARGIN_X, this.y, MARGIN_X, this.y + height);
+      this.apply(style);
+      chunk.forEach((line, i) => {
+        this.doc.text(line, MARGIN_X + padding, this.y + padding + lineHeight * (i + 0.75));
+      });
+      this.y += height;
+      index += chunk.length;
+      if (index < lines.length) this.newPage();
+    }
+    this.y += 4;
+  }
+
+  async image(url: string, caption: string, font: string) {
+    try {
+      const image = await rasterizeImage(url);
+      let width = CONTENT_WIDTH;
+      let height = (image.height / image.width) * width;
+      const maxHeight = PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - 12;
+      if (height > maxHeight) {
+        width *= maxHeight / height;
+        height = maxHeight;
+      }
+      this.ensureSpace(height + 10);
+      this.doc.addImage(image.data, 'PNG', MARGIN_X + (CONTENT_WIDTH - width) / 2, this.y, width, height);
+      this.y += height + 2;
+      if (caption) this.text(caption, { font, size: 8, color: [100, 116, 139] }, { align: 'center', spaceAfter: 4 });
+    } catch (err) {
+      console.error("Skipping image in PDF export", err);
+    }
+  }
+}
+
+export interface PdfExportOptions {
+  fontFamily: string;
+}
+
+const renderQuestion = async (layout: PdfLayout, q: Question, index: number, fonts: { body: string; code: string }) => {
+  const label = (text: string, color: [number, number, number] = [37, 99, 235]) => {
+    layout.ensureSpace(12);
+    layout.y += 3;
+    layout.text(text.toUpperCase(), { font: fonts.body, style: 'bold', size: 8, color }, { spaceAfter: 1.5 });
+  };
+
+  layout.text(`${String(index + 1).padStart(2, '0')}`, { font: fonts.body, style: 'bold', size: 18, color: [203, 213, 225] }, { spaceAfter: 0 });
+  await layout.richText(markdownToText(q.question_text), { font: fonts.body, style: 'bold', size: 13 }, { spaceAfter: 3 });
+
+  if (q.explanation) {
+    label('Analytical Exposition');
+    await layout.richText(markdownToText(q.explanation), { font: fonts.body, size: 10.5, color: [71, 85, 105] });
+  }
+
+  for (const [i, asset] of (q.assets || []).entries()) {
+    await layout.image(asset.url, asset.caption ? `Figure ${i + 1}: ${asset.caption}` : '', fonts.body);
+  }
+
+  if (q.code) {
+    label(`Code${q.language ? ` · ${q.language}` : ''}`);
+    layout.code(q.code, fonts.code, [248, 250, 252]);
+    if (q.execution_output) {
+      label('Output', [71, 85, 105]);
+      layout.code(q.execution_output, fonts.code, [241, 245, 249]);
+    }
+  }
+
+  if (q.solution && !q.code) {
+    label('Synthesized Result', [29, 78, 216]);
+    await layout.richText(markdownToText(q.solution), { font: fonts.body, style: 'bold', size: 11, color: [30, 58, 138] });
+  }
+};
+
+/**
+ * Renders the assignment to a paginated PDF without the browser print dialog:
+ * title page, table of contents, running header with the title and
+ * "Page X of Y" footers, with the editor's font embedded.
+ */
+export const exportPdf = async (result: AssignmentResult, options: PdfExportOptions): Promise<Blob> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const title = markdownToText(result.title);
+  const bodyText = [
+    title,
+    ...result.questions.flatMap(q => [
+      markdownToText(q.question_text),
+      q.explanation ? markdownToText(q.explanation) : '',
+      q.solution ? markdownToText(q.solution) : '',
+      ...(q.assets || []).map(a => a.caption || '')
+    ])
+  ].join('');
+  const fonts = {
+    body: await embedBodyFont(doc, options.fontFamily, bodyText),
+    code: await embedFont(doc, CODE_FONT, 'courier')
+  };
+  doc.setProperties({ title, creator: 'AceAssign AI' });
+  const layout = new PdfLayout(doc);
+
+  // Title page
+  layout.y = 100;
+  layout.text(title, { font: fonts.body, style: 'bold', size: 26, color: [15, 23, 42] }, { align: 'center', spaceAfter: 6 });
+  layout.text(
+    `Assignment Dossier · ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+    { font: fonts.body, size: 10, color: [148, 163, 184] },
+    { align: 'center' }
+  );
+
+  // Reserve the table of contents pages now; they are filled in once page numbers are known
+  const tocStart = layout.page + 1;
+  const tocLinesPerPage = Math.floor((PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - 20) / TOC_LINE_HEIGHT);
+  const tocPages = Math.max(1, Math.ceil(result.questions.length / tocLinesPerPage));
+  for (let i = 0; i < tocPages; i++) layout.newPage();
+
+  const questionPages: number[] = [];
+  for (const [i, q] of result.questions.entries()) {
+    layout.newPage();
+    questionPages.push(layout.page);
+    await renderQuestion(layout, q, i, fonts);
+  }
+
+  // Table of contents
+  result.questions.forEach((q, i) => {
+    const page = tocStart + Math.floor(i / tocLinesPerPage);
+    const row = i % tocLinesPerPage;
+    doc.setPage(page);
+    if (row === 0) {
+      doc.setFont(fonts.body, 'bold');
+      doc.setFontSize(16);
+      doc.setTextColor(15, 23, 42);
+      doc.text('Contents', MARGIN_X, MARGIN_TOP + 8);
+    }
+    const y = MARGIN_TOP + 22 + row * TOC_LINE_HEIGHT;
+    const entry = `${i + 1}. ${markdownToText(q.question_text).replace(/\s+/g, ' ')}`;
+    doc.setFont(fonts.body, 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(51, 65, 85);
+    const [line] = doc.splitTextToSize(entry, CONTENT_WIDTH - 20);
+    doc.text(line === entry ? line : `${line.replace(/\s*\S*$/, '')}...`, MARGIN_X, y);
+    doc.text(String(questionPages[i]), PAGE_WIDTH - MARGIN_X, y, { align: 'right' });
+    doc.link(MARGIN_X, y - 5, CONTENT_WIDTH, TOC_LINE_HEIGHT, { pageNumber: questionPages[i] });
+  });
+
+  // Running header and footer on every page after the title page
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont(fonts.body, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(148, 163, 184);
+    doc.text(title, MARGIN_X, 14, { maxWidth: CONTENT_WIDTH - 30 });
+    doc.setDrawColor(226, 232, 240);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN_X, 17, PAGE_WIDTH - MARGIN_X, 17);
+    doc.text(`Page ${page} of ${total}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 10, { align: 'center' });
+  }
+
+  return doc.output('blob');
+};
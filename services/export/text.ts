@@ -0,0 +1,44 @@
+
+// Field values may hold HTML from contentEditable edits; exporters need plain text
+export const htmlToText = (value: string): string => {
+  if (!/<[a-z][\s\S]*>/i.test(value)) return value;
+  const container = document.createElement('div');
+  container.innerHTML = value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n');
+  return (container.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const fileSlug = (title: string): string =>
+  title.replace(/<[^>]*>/g, '').trim().replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'assignment';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Re-encodes any browser-readable image (webp, svg...) as PNG bytes with its pixel size
+export const rasterizeImage = (url: string): Promise<{ data: Uint8Array; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth || 1;
+      canvas.height = img.naturalHeight || 1;
+      canvas.getContext('2d')!.drawImage(img, 0, 0);
+      const base64 = canvas.toDataURL('image/png').split(',')[1];
+      resolve({
+        data: Uint8Array.from(atob(base64), c => c.charCodeAt(0)),
+        width: canvas.width,
+        height: canvas.height
+      });
+    };
+    img.onerror = () => reject(new Error('Could not load image for export.'));
+    img.src = url;
+  });
@@ -0,0 +1,81 @@
+
+import { AssignmentResult, Flashcard } from "../types";
+import { aiService } from "./ai";
+import { createId } from "./library";
+import { markdownToText } from "./markdown";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+
+// SM-2 answer quality, from 0 (blackout) to 5 (perfect recall); below 3 counts as forgotten
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const REVIEW_BUTTONS: { quality: ReviewQuality; label: string }[] = [
+  { quality: 1, label: 'Again' },
+  { quality: 3, label: 'Hard' },
+  { quality: 4, label: 'Good' },
+  { quality: 5, label: 'Easy' }
+];
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * SM-2: a forgotten card starts over at one day; a recalled one waits 1 day,
+ * then 6, then the previous interval times its easiness factor. The easiness
+ * factor moves with every answer and never drops below 1.3.
+ */
+export const scheduleReview = (card: Flashcard, quality: ReviewQuality, now = Date.now()): Flashcard => {
+  const easiness = Math.max(MIN_EASINESS, card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  const repetitions = quality < 3 ? 0 : card.repetitions + 1;
+  const intervalDays = repetitions <= 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easiness);
+  return {
+    ...card,
+    easiness,
+    repetitions,
+    intervalDays,
+    dueAt: startOfDay(now) + intervalDays * DAY_MS,
+    lastReviewedAt: now
+  };
+};
+
+// Cards due today or earlier, oldest first
+export const dueCards = (cards: Flashcard[], now = Date.now()): Flashcard[] => {
+  const endOfToday = startOfDay(now) + DAY_MS;
+  return cards.filter(c => c.dueAt < endOfToday).sort((a, b) => a.dueAt - b.dueAt);
+};
+
+/**
+ * Generates cards for an assignment. Cards whose front matches an existing
+ * card of the same assignment are skipped, so generating again only adds new ones.
+ */
+export const createFlashcards = async (assignmentId: string, result: AssignmentResult, existing: Flashcard[]): Promise<Flashcard[]> => {
+  const generated = await aiService.generateFlashcards(result);
+  const seen = new Set(existing.map(c => markdownToText(c.front).toLowerCase()));
+  const now = Date.now();
+  return generated
+    .filter(c => {
+      const key = markdownToText(c.front).toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(c => ({
+      id: createId(),
+      assignmentId,
+      assignmentTitle: markdownToText(result.title),
+      questionId: c.question_id,
+      kind: c.kind,
+      front: c.front,
+      back: c.back,
+      createdAt: now,
+      easiness: INITIAL_EASINESS,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: now
+    }));
+};
@@ -0,0 +1,101 @@
+
+import { AssignmentResult, FileData, GradedAnswer, GradingReport, QuestionStatus } from "../types";
+import { aiService } from "./ai";
+import { markdownToText } from "./markdown";
+
+export type GradingEvent =
+  | { type: 'outline'; outline: AssignmentResult }
+  | { type: 'status'; questionId: string; status: QuestionStatus }
+  | { type: 'answer'; answer: GradedAnswer };
+
+export interface GradingOptions {
+  // Marking scheme pasted by the TA; a rubric is generated per question when absent
+  rubric?: string;
+  signal?: AbortSignal;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error && err.message ? err.message : 'Something went wrong while grading this answer.';
+
+/**
+ * Grading mode, the processing pipeline in reverse: extract the questions from
+ * the question paper, find the student's answer to each one in the submission,
+ * then grade them one by one. Like solving, a failed answer is emitted with
+ * `error` set and grading moves on.
+ */
+export async function* gradeSubmission(paper: FileData[], submission: FileData[], options: GradingOptions = {}): AsyncGenerator<GradingEvent> {
+  const { rubric, signal } = options;
+  const outline = await aiService.extractOutline(paper, signal);
+  const matched = await aiService.matchAnswers(outline, submission, signal);
+  yield { type: 'outline', outline };
+
+  for (const question of outline.questions) {
+    signal?.throwIfAborted();
+    const answer = (matched[question.id] || '').trim();
+    yield { type: 'status', questionId: question.id, status: 'solving' };
+    try {
+      // Unanswered questions are still graded so their points count towards the total
+      const graded = await aiService.gradeAnswer(outline, question, answer || '(No answer was found in the submission.)', rubric, signal);
+      yield { type: 'answer', answer: { questionId: question.id, answer, ...graded } };
+      yield { type: 'status', questionId: question.id, status: 'done' };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.error(`Failed to grade question ${question.id}`, err);
+      yield { type: 'answer', answer: { questionId: question.id, answer, rubric: [], comments: [], feedback: '', error: errorMessage(err) } };
+      yield { type: 'status', questionId: question.id, status: 'failed' };
+    }
+  }
+}
+
+export const answerScore = (answer: GradedAnswer) => ({
+  awarded: answer.rubric.reduce((sum, c) => sum + c.awarded, 0),
+  points: answer.rubric.reduce((sum, c) => sum + c.points, 0)
+});
+
+export const reportScore = (report: GradingReport) =>
+  report.answers.reduce((total, a) => {
+    const { awarded, points } = answerScore(a);
+    return { awarded: total.awarded + awarded, points: total.points + points };
+  }, { awarded: 0, points: 0 });
+
+export const formatPoints = (value: number) => String(Math.round(value * 10) / 10);
+
+const answerMarkdown = (answer: GradedAnswer): string => {
+  if (answer.error) return `**Not graded:** ${answer.error}`;
+  const sections = [`**Student answer**\n\n${answer.answer || '_No answer submitted._'}`];
+  if (answer.rubric.length > 0) {
+    sections.push(`**Rubric**\n\n${answer.rubric
+      .map(c => `- ${c.description}: ${formatPoints(c.awarded)} / ${formatPoints(c.points)}${c.comment ? `. ${c.comment}` : ''}`)
+      .join('\n')}`);
+  }
+  if (answer.comments.length > 0) {
+    sections.push(`**Comments**\n\n${answer.comments.map(c => `- "${c.excerpt}": ${c.comment}`).join('\n')}`);
+  }
+  if (answer.feedback) sections.push(`**Feedback**\n\n${answer.feedback}`);
+  return sections.join('\n\n');
+};
+
+/**
+ * Lays the report out as an assignment document so every exporter can
+ * produce it: the feedback goes where the explanation would, the score where
+ * the final answer would.
+ */
+export const reportToDocument = (report: GradingReport): AssignmentResult => {
+  const total = reportScore(report);
+  const student = report.studentName ? ` for ${report.studentName}` : '';
+  return {
+    type: report.type,
+    title: `Feedback${student}: ${markdownToText(report.title)} (${formatPoints(total.awarded)} / ${formatPoints(total.points)})`,
+    questions: report.questions.map(q => {
+      const answer = report.answers.find(a => a.questionId === q.id);
+      const score = answer ? answerScore(answer) : { awarded: 0, points: 0 };
+      return {
+        id: q.id,
+        question_text: q.question_text,
+        requires_execution: false,
+        explanation: answer ? answerMarkdown(answer) : '_Not graded._',
+        solution: `Score: ${formatPoints(score.awarded)} / ${formatPoints(score.points)}`
+      };
+    })
+  };
+};
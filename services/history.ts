@@ -0,0 +1,106 @@
+
+import { AssignmentResult, Question } from "../types";
+
+export type ChangeSource = 'user' | 'ai';
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  source: ChangeSource;
+  timestamp: number;
+  // Consecutive entries with the same key (e.g. typing in one field) are merged
+  coalesceKey?: string;
+  before: AssignmentResult;
+  after: AssignmentResult;
+  reverted?: boolean;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const get = <K extends keyof Question>(q: Partial<Question>, field: K) => q[field];
+
+const setField = <K extends keyof Question>(q: Question, field: K, value: Partial<Question>[K]): Question => {
+  const next: Partial<Question> = { ...q };
+  if (value === undefined) delete next[field];
+  else next[field] = value;
+  return next as Question;
+};
+
+/**
+ * Undoes one entry's changes on top of the current document, leaving later
+ * edits alone. A field is only rolled back if it still holds the value the
+ * entry wrote; anything edited since counts as a conflict and is kept.
+ */
+export const revertEntry = (
+  current: AssignmentResult,
+  entry: HistoryEntry
+): { result: AssignmentResult; conflicts: number } => {
+  const { before, after } = entry;
+  let conflicts = 0;
+  let questions = [...current.questions];
+
+  const beforeById = new Map(before.questions.map(q => [q.id, q]));
+  const afterById = new Map(after.questions.map(q => [q.id, q]));
+
+  for (const [id, was] of beforeById) {
+    const became = afterById.get(id);
+    const index = questions.findIndex(q => q.id === id);
+
+    if (!became) {
+      // The entry deleted this question: put it back near its old position
+      if (index === -1) {
+        questions.splice(Math.min(before.questions.indexOf(was), questions.length), 0, was);
+      }
+      continue;
+    }
+    if (index === -1) {
+      conflicts++;
+      continue;
+    }
+
+    let q = questions[index];
+    const fields = new Set([...Object.keys(was), ...Object.keys(became)] as (keyof Question)[]);
+    for (const field of fields) {
+      const oldValue = get(was, field);
+      const newValue = get(became, field);
+      if (same(oldValue, newValue)) continue;
+      if (same(get(q, field), newValue)) {
+        q = setField(q, field, oldValue);
+      } else {
+        conflicts++;
+      }
+    }
+    questions[index] = q;
+  }
+
+  // Questions the entry added are removed again
+  for (const id of afterById.keys()) {
+    if (!beforeById.has(id)) questions = questions.filter(q => q.id !== id);
+  }
+
+  // A reorder is undone only if the questions are still in the order the entry left them
+  const kept = (list: Question[]) => list.filter(q => beforeById.has(q.id) && afterById.has(q.id)).map(q => q.id);
+  const oldOrder = kept(before.questions);
+  const newOrder = kept(after.questions);
+  if (!same(oldOrder, newOrder)) {
+    if (same(kept(questions), newOrder)) {
+      const byId = new Map(questions.map(q => [q.id, q]));
+      let next = 0;
+      questions = questions.map(q => beforeById.has(q.id) && afterById.has(q.id) ? byId.get(oldOrder[next++])! : q);
+    } else {
+      conflicts++;
+    }
+  }
+
+  let { title, type } = current;
+  if (before.title !== after.title) {
+    if (current.title === after.title) title = before.title;
+    else conflicts++;
+  }
+  if (before.type !== after.type) {
+    if (current.type === after.type) type = before.type;
+    else conflicts++;
+  }
+
+  return { result: { ...current, title, type, questions }, conflicts };
+};
@@ -0,0 +1,191 @@
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export type EnhanceMode = 'none' | 'contrast' | 'scan';
+
+// Phone photos are large; work at a size that stays fast and still reads well
+export const MAX_WORKING_SIZE = 2000;
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+export const fullQuad = (width: number, height: number): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height }
+];
+
+export const drawScaled = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const scale = Math.min(1, MAX_WORKING_SIZE / Math.max(width, height));
+  const canvas = createCanvas(width * scale, height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const rotateQuarterTurns = (source: HTMLCanvasElement, turns: number): HTMLCanvasElement => {
+  const t = ((turns % 4) + 4) % 4;
+  if (t === 0) return source;
+  const swap = t % 2 === 1;
+  const canvas = createCanvas(swap ? source.height : source.width, swap ? source.width : source.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((t * Math.PI) / 2);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Solves the 8x8 system for the homography mapping `from` onto `to`
+const solveHomography = (from: Quad, to: Quad): number[] => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const div = rows[col][col] || 1e-12;
+    for (let c = col; c < 9; c++) rows[col][c] /= div;
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return [...rows.map(r => r[8]), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Crops the quadrilateral out of the source and straightens it into a
+ * rectangle (perspective correction). An axis-aligned quad is a plain crop.
+ */
+export const warpQuad = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const out = createCanvas(width, height);
+
+  // Inverse mapping: for each output pixel find where it comes from in the source
+  const h = solveHomography(fullQuad(out.width, out.height), quad);
+  const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const ctx = out.getContext('2d')!;
+  const dst = ctx.createImageData(out.width, out.height);
+  const sw = source.width;
+  const sh = source.height;
+
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = (h[0] * x + h[1] * y + h[2]) / w;
+      const sy = (h[3] * x + h[4] * y + h[5]) / w;
+      const x0 = Math.min(sw - 1, Math.max(0, Math.floor(sx)));
+      const y0 = Math.min(sh - 1, Math.max(0, Math.floor(sy)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+      const o = (y * out.width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src.data[(y0 * sw + x0) * 4 + c] * (1 - fx) + src.data[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = src.data[(y1 * sw + x0) * 4 + c] * (1 - fx) + src.data[(y1 * sw + x1) * 4 + c] * fx;
+        dst.data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      dst.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(dst, 0, 0);
+  return out;
+};
+
+/**
+ * Cleans up a photographed page. `contrast` converts to grayscale and stretches
+ * the histogram; `scan` additionally applies an adaptive threshold so uneven
+ * lighting and shadows drop out, leaving dark ink on white.
+ */
+export const enhance = (source: HTMLCanvasElement, mode: EnhanceMode): HTMLCanvasElement => {
+  if (mode === 'none') return source;
+  const { width, height } = source;
+  const out = createCanvas(width, height);
+  const ctx = out.getContext('2d')!;
+  const image = source.getContext('2d')!.getImageData(0, 0, width, height);
+  const data = image.data;
+  const gray = new Float32Array(width * height);
+  const histogram = new Uint32Array(256);
+
+  for (let i = 0; i < gray.length; i++) {
+    const g = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = g;
+    histogram[Math.round(g)]++;
+  }
+
+  // Stretch between the 2nd and 98th percentile
+  const percentile = (p: number) => {
+    let count = 0;
+    for (let v = 0; v < 256; v++) {
+      count += histogram[v];
+      if (count >= gray.length * p) return v;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = Math.max(low + 1, percentile(0.98));
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.min(255, Math.max(0, ((gray[i] - low) * 255) / (high - low)));
+  }
+
+  if (mode === 'scan') {
+    // Integral image for O(1) local means
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gray[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+    const radius = Math.max(8, Math.round(Math.min(width, height) / 32));
+    const thresholded = new Float32Array(gray.length);
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - radius);
+      const y1 = Math.min(height, y + radius + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - radius);
+        const x1 = Math.min(width, x + radius + 1);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+        const mean = sum / ((x1 - x0) * (y1 - y0));
+        thresholded[y * width + x] = gray[y * width + x] < mean - 12 ? 0 : 255;
+      }
+    }
+    gray.set(thresholded);
+  }
+
+  for (let i = 0; i < gray.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i];
+    data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return out;
+};
+
+export const canvasToBase64 = (canvas: HTMLCanvasElement, quality = 0.85): string =>
+  canvas.toDataURL('image/jpeg', quality).split(',')[1];
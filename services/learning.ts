@@ -0,0 +1,51 @@
+
+import { AssignmentResult, Question } from "../types";
+import { ChangeProposal } from "./review";
+
+// Reveal levels: 0 shows nothing, 1..n show that many hints, anything past the last hint shows the solution
+export const isSolutionRevealed = (q: Question): boolean =>
+  (q.revealLevel || 0) > (q.hints?.length || 0);
+
+// Whether the document should hide this question's explanation, answer and code
+export const isSolutionHidden = (result: AssignmentResult, q: Question): boolean =>
+  !!result.learningMode && !q.error && !isSolutionRevealed(q);
+
+export const revealedHints = (q: Question): string[] => (q.hints || []).slice(0, q.revealLevel || 0);
+
+// What the student can currently see; everything else is withheld from the tutor
+export const learningView = (result: AssignmentResult) => ({
+  ...result,
+  questions: result.questions.map(q => {
+    const { hints, revealLevel, variants, activeVariantId, ...rest } = q;
+    if (!isSolutionHidden(result, q)) return { ...rest, revealed: 'full solution' };
+    return {
+      id: q.id,
+      question_text: q.question_text,
+      language: q.language,
+      revealed: `${revealedHints(q).length} of ${hints?.length || 0} hints`,
+      hints_seen: revealedHints(q)
+    };
+  })
+});
+
+export const LEARNING_MODE_RULES = `LEARNING MODE IS ON. The student is working through the questions with graded hints. For each question, CONTEXT lists only the hints they have opened ("hints_seen"); questions marked "full solution" are fully revealed.
+        For any question whose full solution is not revealed: do not give the final answer, the complete working or complete code, and do not put them in the document with the tool. Guide with questions and hints at most one step beyond the hints they have seen. If they insist, tell them to use "Show full solution" in the document.`;
+
+// Fields of a hidden question the student can't see yet
+const HIDDEN_FIELDS: string[] = ['explanation', 'solution', 'code'];
+const HIDDEN_TEXT = '(hidden until you reveal the solution)';
+
+// The proposal as the student may review it: edits to hidden fields don't show the text they replace or add
+export const redactHiddenChanges = (result: AssignmentResult, proposal: ChangeProposal): ChangeProposal => ({
+  ...proposal,
+  changes: proposal.changes.map(change => {
+    if (!result.learningMode) return change;
+    // A new question starts out hidden too, so only its question text is shown
+    if (change.field === 'insert' && change.question) {
+      return { ...change, after: [change.question.question_text, HIDDEN_TEXT].join('\n\n') };
+    }
+    const question = result.questions.find(q => q.id === change.questionId);
+    if (!question || !HIDDEN_FIELDS.includes(change.field) || !isSolutionHidden(result, question)) return change;
+    return { ...change, before: change.before && HIDDEN_TEXT, after: change.after && HIDDEN_TEXT };
+  })
+});
@@ -0,0 +1,215 @@
+
+import { AssignmentResult, ChatMessage, FileData, Flashcard, LibraryEntry, PracticeSet } from "../types";
+
+const DB_NAME = 'aceassign';
+const DB_VERSION = 3;
+const ASSIGNMENTS = 'assignments';
+const CHATS = 'chats';
+const PRACTICE = 'practice';
+const FLASHCARDS = 'flashcards';
+
+export type LibrarySort = 'updated' | 'created' | 'title';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Local assignment library backed by IndexedDB. Assignments, their chat
+ * transcripts, practice sets and flashcards live in separate stores so
+ * autosaving one never clobbers the others.
+ */
+export class LibraryService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ASSIGNMENTS)) {
+          db.createObjectStore(ASSIGNMENTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CHATS)) {
+          db.createObjectStore(CHATS);
+        }
+        if (!db.objectStoreNames.contains(PRACTICE)) {
+          db.createObjectStore(PRACTICE);
+        }
+        if (!db.objectStoreNames.contains(FLASHCARDS)) {
+          db.createObjectStore(FLASHCARDS, { keyPath: 'id' }).createIndex('assignmentId', 'assignmentId');
+        }
+      };
+      this.db = promisify(request);
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  async list(query = '', sort: LibrarySort = 'updated'): Promise<LibraryEntry[]> {
+    const db = await this.open();
+    const entries = await promisify<LibraryEntry[]>(
+      db.transaction(ASSIGNMENTS).objectStore(ASSIGNMENTS).getAll()
+    );
+    const needle = query.trim().toLowerCase();
+    const filtered = needle
+      ? entries.filter(e =>
+          e.title.toLowerCase().includes(needle) ||
+          e.files.some(f => f.name.toLowerCase().includes(needle)) ||
+          e.result.questions.some(q => q.question_text.toLowerCase().includes(needle))
+        )
+      : entries;
+
+    return filtered.sort((a, b) => {
+      if (sort === 'title') return a.title.localeCompare(b.title);
+      if (sort === 'created') return b.createdAt - a.createdAt;
+      return b.updatedAt - a.updatedAt;
+    });
+  }
+
+  async get(id: string): Promise<LibraryEntry | undefined> {
+    const db = await this.open();
+    return promisify<LibraryEntry | undefined>(db.transaction(ASSIGNMENTS).objectStore(ASSIGNMENTS).get(id));
+  }
+
+  // Assignments joined through an invite link keep the room id as their library id
+  async create(result: AssignmentResult, files: FileData[] = [], id: string = createId()): Promise<LibraryEntry> {
+    const now = Date.now();
+    const entry: LibraryEntry = {
+      id,
+      title: result.title,
+      type: result.type,
+      createdAt: now,
+      updatedAt: now,
+      questionCount: result.questions.length,
+      files,
+      result
+    };
+    const db = await this.open();
+    const tx = db.transaction(ASSIGNMENTS, 'readwrite');
+    tx.objectStore(ASSIGNMENTS).put(entry);
+    await done(tx);
+    return entry;
+  }
+
+  // Read-modify-write in one transaction so concurrent saves cannot interleave
+  async saveResult(id: string, result: AssignmentResult): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(ASSIGNMENTS, 'readwrite');
+    const store = tx.objectStore(ASSIGNMENTS);
+    const existing = await promisify<LibraryEntry | undefined>(store.get(id));
+    if (existing) {
+      store.put({
+        ...existing,
+        title: result.title,
+        type: result.type,
+        questionCount: result.questions.length,
+        updatedAt: Date.now(),
+        result
+      });
+    }
+    await done(tx);
+  }
+
+  async duplicate(id: string): Promise<LibraryEntry | undefined> {
+    const original = await this.get(id);
+    if (!original) return undefined;
+    const copy = await this.create(
+      { ...original.result, title: `${original.result.title} (Copy)` },
+      original.files
+    );
+    await this.saveChat(copy.id, await this.getChat(id));
+    await this.savePractice(copy.id, await this.getPractice(id));
+    const cards = await this.listFlashcards(id);
+    await this.saveFlashcards(cards.map(card => ({
+      ...card,
+      id: createId(),
+      assignmentId: copy.id,
+      assignmentTitle: copy.result.title
+    })));
+    return copy;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ASSIGNMENTS, CHATS, PRACTICE, FLASHCARDS], 'readwrite');
+    tx.objectStore(ASSIGNMENTS).delete(id);
+    tx.objectStore(CHATS).delete(id);
+    tx.objectStore(PRACTICE).delete(id);
+    const cards = tx.objectStore(FLASHCARDS);
+    const keys = await promisify(cards.index('assignmentId').getAllKeys(id));
+    keys.forEach(key => cards.delete(key));
+    await done(tx);
+  }
+
+  async getChat(id: string): Promise<ChatMessage[]> {
+    const db = await this.open();
+    const messages = await promisify<ChatMessage[] | undefined>(db.transaction(CHATS).objectStore(CHATS).get(id));
+    return messages || [];
+  }
+
+  async saveChat(id: string, messages: ChatMessage[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(CHATS, 'readwrite');
+    if (messages.length > 0) {
+      tx.objectStore(CHATS).put(messages, id);
+    } else {
+      tx.objectStore(CHATS).delete(id);
+    }
+    await done(tx);
+  }
+
+  async getPractice(id: string): Promise<PracticeSet[]> {
+    const db = await this.open();
+    const sets = await promisify<PracticeSet[] | undefined>(db.transaction(PRACTICE).objectStore(PRACTICE).get(id));
+    return sets || [];
+  }
+
+  async savePractice(id: string, sets: PracticeSet[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(PRACTICE, 'readwrite');
+    if (sets.length > 0) {
+      tx.objectStore(PRACTICE).put(sets, id);
+    } else {
+      tx.objectStore(PRACTICE).delete(id);
+    }
+    await done(tx);
+  }
+
+  // Flashcards of every assignment, for the daily review
+  async listFlashcards(assignmentId?: string): Promise<Flashcard[]> {
+    const db = await this.open();
+    const store = db.transaction(FLASHCARDS).objectStore(FLASHCARDS);
+    return promisify<Flashcard[]>(assignmentId ? store.index('assignmentId').getAll(assignmentId) : store.getAll());
+  }
+
+  async saveFlashcards(cards: Flashcard[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(FLASHCARDS, 'readwrite');
+    cards.forEach(card => tx.objectStore(FLASHCARDS).put(card));
+    await done(tx);
+  }
+
+  async deleteFlashcard(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(FLASHCARDS, 'readwrite');
+    tx.objectStore(FLASHCARDS).delete(id);
+    await done(tx);
+  }
+}
+
+export const libraryService = new LibraryService();
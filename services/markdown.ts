@@ -0,0 +1,95 @@
+
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import TurndownService from 'turndown';
+import { splitMath } from './math';
+import { htmlToText } from './export/text';
+
+// Question content is stored as Markdown with LaTeX math. Model output, tutor
+// edits and manual edits in the editor all go through this module so they end
+// up in the same canonical form.
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '*',
+  strongDelimiter: '**'
+});
+
+// Rendering uses `breaks`, so a plain newline is already a line break
+turndown.addRule('lineBreak', {
+  filter: 'br',
+  replacement: () => '\n'
+});
+
+// Turndown pads list markers to four columns; a single space is the usual spelling
+turndown.addRule('listItem', {
+  filter: 'li',
+  replacement: (content, node, options) => {
+    const parent = node.parentNode as HTMLElement;
+    let prefix = `${options.bulletListMarker} `;
+    if (parent.nodeName === 'OL') {
+      const start = Number(parent.getAttribute('start') || 1);
+      prefix = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+    }
+    const body = content
+      .replace(/^\n+/, '')
+      .replace(/\n+$/, '\n')
+      .replace(/\n/gm, `\n${' '.repeat(prefix.length)}`);
+    return prefix + body + (node.nextSibling && !/\n$/.test(body) ? '\n' : '');
+  }
+});
+
+// Text colour from the formatting toolbar has no Markdown equivalent; keep it as inline HTML
+turndown.keep(node => node.nodeName === 'FONT');
+
+// Markdown escaping would corrupt LaTeX (a_1 -> a\_1), so formulas are left as typed
+const escapeMarkdown = turndown.escape.bind(turndown);
+turndown.escape = (text: string) =>
+  splitMath(text).map(s => (s.type === 'math' ? s.raw! : escapeMarkdown(s.value))).join('');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Parses Markdown into sanitized HTML. Math is shielded from the Markdown
+ * parser and comes back as its LaTeX source, ready for `renderMathHtml`.
+ */
+export const markdownToHtml = (value: string, inline = false): string => {
+  if (!value) return '';
+  const formulas: string[] = [];
+  const shielded = splitMath(value)
+    .map(s => (s.type === 'math' ? `MATHPLACEHOLDER${formulas.push(s.raw!) - 1}END` : s.value))
+    .join('');
+  const html = inline
+    ? marked.parseInline(shielded, { async: false, gfm: true, breaks: true })
+    : marked.parse(shielded, { async: false, gfm: true, breaks: true });
+  const restored = html.replace(/MATHPLACEHOLDER(\d+)END/g, (_, i) => escapeHtml(formulas[Number(i)]));
+  return DOMPurify.sanitize(restored);
+};
+
+export const htmlToMarkdown = (html: string, inline = false): string => {
+  const markdown = turndown.turndown(html);
+  return inline ? markdown.replace(/\s*\n+\s*/g, ' ').trim() : markdown;
+};
+
+// Older documents stored contentEditable HTML; a round trip also settles Markdown into one spelling
+export const canonicalMarkdown = (value: string, inline = false): string =>
+  value ? htmlToMarkdown(markdownToHtml(value, inline), inline) : value;
+
+// Plain text for exporters that do their own layout; list items keep their markers
+export const markdownToText = (value: string): string => {
+  if (!value) return '';
+  const container = document.createElement('div');
+  // Without the whitespace between list tags each item ends up on its own paragraph
+  container.innerHTML = markdownToHtml(value).replace(/\s*(<\/?(?:ul|ol|li)\b[^>]*>)\s*/g, '$1');
+  container.querySelectorAll('li').forEach(li => {
+    const list = li.parentElement;
+    const marker = list?.tagName === 'OL'
+      ? `${Number(list.getAttribute('start') || 1) + Array.from(list.children).indexOf(li)}. `
+      : '• ';
+    li.prepend(marker);
+  });
+  return htmlToText(container.innerHTML);
+};
@@ -0,0 +1,110 @@
+
+import katex from 'katex';
+import html2canvas from 'html2canvas';
+
+export interface MathSegment {
+  type: 'text' | 'math';
+  value: string;
+  display?: boolean;
+  // Math exactly as written, delimiters included
+  raw?: string;
+}
+
+// $$…$$ and \[…\] are display math; $…$ and \(…\) are inline. A single $ only opens
+// math when followed by a non-space and closes when not followed by a digit, so
+// prices like "$5 and $10" stay text.
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/;
+
+export const containsMath = (text: string): boolean => MATH_PATTERN.test(text);
+
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(new RegExp(MATH_PATTERN, 'g'))) {
+    if (match.index! > last) segments.push({ type: 'text', value: text.slice(last, match.index) });
+    const display = match[1] !== undefined || match[2] !== undefined;
+    segments.push({ type: 'math', value: (match[1] ?? match[2] ?? match[3] ?? match[4]).trim(), display, raw: match[0] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: 'text', value: text.slice(last) });
+  return segments;
+};
+
+export const renderTex = (tex: string, display = false): string =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'htmlAndMathml' });
+
+/**
+ * Replaces math in the text of an HTML fragment with KaTeX markup, leaving
+ * the surrounding formatting alone. Math split across tags or inside code is
+ * left as source.
+ */
+export const renderMathHtml = (html: string): string => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+  for (const node of nodes) {
+    if (node.parentElement?.closest('code, pre')) continue;
+    const segments = splitMath(node.data);
+    if (!segments.some(s => s.type === 'math')) continue;
+    const fragment = document.createDocumentFragment();
+    for (const segment of segments) {
+      if (segment.type === 'text') {
+        fragment.appendChild(document.createTextNode(segment.value));
+      } else {
+        const span = document.createElement('span');
+        span.innerHTML = renderTex(segment.value, segment.display);
+        fragment.appendChild(span.firstChild || span);
+      }
+    }
+    node.replaceWith(fragment);
+  }
+  return container.innerHTML;
+};
+
+export interface MathImage {
+  dataUrl: string;
+  // Sizes in CSS pixels; descent is how far the image extends below the text baseline
+  width: number;
+  height: number;
+  descent: number;
+}
+
+/**
+ * Rasterizes a formula with the page's KaTeX fonts so non-DOM outputs (the
+ * jsPDF export) show the same rendering as the editor.
+ */
+export const renderMathImage = async (
+  tex: string,
+  display: boolean,
+  fontSizePx: number,
+  color = '#1e293b'
+): Promise<MathImage> => {
+  const host = document.createElement('div');
+  host.style.cssText = `position:fixed;left:-10000px;top:0;font-size:${fontSizePx}px;color:${color};white-space:nowrap;`;
+  host.innerHTML = katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'html' });
+  const target = (host.querySelector('.katex') as HTMLElement) || host;
+  target.style.display = 'inline-block';
+  // Zero-height marker sits on the baseline, which gives us the formula's descent
+  const marker = document.createElement('span');
+  marker.style.cssText = 'display:inline-block;width:0;height:0;vertical-align:baseline;';
+  target.after(marker);
+  document.body.appendChild(host);
+
+  try {
+    await document.fonts?.ready;
+    const rect = target.getBoundingClientRect();
+    const baseline = marker.getBoundingClientRect().top;
+    const canvas = await html2canvas(target, { backgroundColor: null, scale: 3, logging: false });
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      width: rect.width,
+      height: rect.height,
+      descent: Math.max(0, rect.bottom - baseline)
+    };
+  } finally {
+    host.remove();
+  }
+};
@@ -0,0 +1,35 @@
+
+import * as pdfjs from 'pdfjs-dist';
+
+pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+// Rendering every page of a long PDF is slow; previews stop after this many
+const MAX_THUMBNAILS = 24;
+
+const base64ToBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export interface PdfPreview {
+  pageCount: number;
+  thumbnails: string[];
+}
+
+export const renderPdfThumbnails = async (base64: string, width = 120): Promise<PdfPreview> => {
+  const pdf = await pdfjs.getDocument({ data: base64ToBytes(base64) }).promise;
+  const thumbnails: string[] = [];
+  try {
+    for (let n = 1; n <= Math.min(pdf.numPages, MAX_THUMBNAILS); n++) {
+      const page = await pdf.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: width / base.width });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+    }
+    return { pageCount: pdf.numPages, thumbnails };
+  } finally {
+    pdf.destroy();
+  }
+};
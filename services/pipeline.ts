@@ -0,0 +1,111 @@
+
+import { AssignmentResult, AssignmentType, FileData, Question, QuestionStatus, VerificationResult } from "../types";
+import { aiService } from "./ai";
+import { executeQuestionCode } from "./execution";
+import { formatExecutionOutput } from "./sandbox";
+import { verifyQuestion } from "./verification";
+
+export type PipelineEvent =
+  | { type: 'outline'; outline: AssignmentResult }
+  | { type: 'status'; questionId: string; status: QuestionStatus }
+  // Solved questions, and failed ones carrying `error`, both go into the document
+  | { type: 'question'; question: Question }
+  // Marks the start of the optional verification stage
+  | { type: 'verifying' }
+  | { type: 'verification'; questionId: string; verification: VerificationResult };
+
+export interface PipelineOptions {
+  // Cross-check every solved question after all of them are solved
+  verify?: boolean;
+  signal?: AbortSignal;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error && err.message ? err.message : 'Something went wrong while solving this question.';
+
+export const needsExecution = (q: Question, outline: AssignmentResult) =>
+  !!q.code && (q.requires_execution || outline.type === AssignmentType.CODING);
+
+export const solvePendingQuestion = (files: FileData[], outline: AssignmentResult, question: Question, signal?: AbortSignal) =>
+  aiService.solveQuestion(files, outline, { ...question, error: undefined }, { signal });
+
+// A crashed runner or failed simulation is reported as output rather than failing the whole question
+export const executeSolvedCode = async (question: Question, signal?: AbortSignal): Promise<Question> => {
+  try {
+    const execution = await executeQuestionCode(question.code!, question.language || 'python', signal);
+    return { ...question, execution, execution_output: formatExecutionOutput(execution) };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error("Code execution failed", err);
+    return { ...question, execution: undefined, execution_output: `Execution failed: ${errorMessage(err)}` };
+  }
+};
+
+// An alternative to an already solved question, with its code run like during processing
+export const regenerateSolution = async (files: FileData[], result: AssignmentResult, question: Question, guidance: string, signal?: AbortSignal): Promise<Question> => {
+  const regenerated = await aiService.solveQuestion(files, result, question, { guidance, signal });
+  return needsExecution(regenerated, result) ? executeSolvedCode(regenerated, signal) : regenerated;
+};
+
+/**
+ * Runs extraction as a stream of events: the outline first, then each
+ * question as soon as it has been solved (and its code run). A question that
+ * fails is emitted with `error` set and the pipeline moves on; only a failed
+ * outline or an abort ends the stream early. With `verify`, a verification
+ * stage follows; a question whose check fails simply stays unverified.
+ */
+export async function* processAssignment(files: FileData[], options: PipelineOptions = {}): AsyncGenerator<PipelineEvent> {
+  const { verify = false, signal } = options;
+  const outline = await aiService.extractOutline(files, signal);
+  yield { type: 'outline', outline };
+  const solvedQuestions: Question[] = [];
+
+  for (const question of outline.questions) {
+    signal?.throwIfAborted();
+    yield { type: 'status', questionId: question.id, status: 'solving' };
+    try {
+      let solved = await solvePendingQuestion(files, outline, question, signal);
+      if (needsExecution(solved, outline)) {
+        yield { type: 'status', questionId: question.id, status: 'executing' };
+        solved = await executeSolvedCode(solved, signal);
+      }
+      solvedQuestions.push(solved);
+      yield { type: 'question', question: solved };
+      yield { type: 'status', questionId: question.id, status: 'done' };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.error(`Failed to solve question ${question.id}`, err);
+      yield { type: 'question', question: { ...question, error: errorMessage(err) } };
+      yield { type: 'status', questionId: question.id, status: 'failed' };
+    }
+  }
+
+  if (!verify || solvedQuestions.length === 0) return;
+  yield { type: 'verifying' };
+  for (const question of solvedQuestions) {
+    signal?.throwIfAborted();
+    yield { type: 'status', questionId: question.id, status: 'verifying' };
+    try {
+      const verification = await verifyQuestion(files, outline, question, signal);
+      yield { type: 'verification', questionId: question.id, verification };
+      yield { type: 'status', questionId: question.id, status: 'verified' };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.error(`Failed to verify question ${question.id}`, err);
+      yield { type: 'status', questionId: question.id, status: 'done' };
+    }
+  }
+}
+
+/**
+ * Inserts a question at its outline position, keeping whatever the user
+ * has edited or reordered in the meantime.
+ */
+export const insertSolved = (result: AssignmentResult, outline: AssignmentResult, question: Question): AssignmentResult => {
+  const order = outline.questions.map(q => q.id);
+  const rank = order.indexOf(question.id);
+  const next = result.questions.findIndex(q => order.indexOf(q.id) > rank);
+  const questions = [...result.questions];
+  questions.splice(next === -1 ? questions.length : next, 0, question);
+  return { ...result, questions };
+};
@@ -0,0 +1,84 @@
+
+import { AssignmentResult, PracticeAttempt, PracticeFormat, PracticeGrade, PracticeQuestion, PracticeSet } from "../types";
+import { aiService } from "./ai";
+import { executeQuestionCode } from "./execution";
+import { createId } from "./library";
+import { parseTestOutput } from "./verification";
+
+export const PRACTICE_FORMAT_LABELS: Record<PracticeFormat, string> = {
+  multiple_choice: 'Multiple choice',
+  short_answer: 'Short answer',
+  coding: 'Coding'
+};
+
+// Formats that suit the assignment: coding practice only when there was code to begin with
+export const defaultPracticeFormats = (result: AssignmentResult): PracticeFormat[] =>
+  result.questions.some(q => q.code) ? ['multiple_choice', 'short_answer', 'coding'] : ['multiple_choice', 'short_answer'];
+
+export const createPracticeSet = async (result: AssignmentResult, count: number, formats: PracticeFormat[]): Promise<PracticeSet> => {
+  const questions = await aiService.generatePracticeSet(result, count, formats);
+  if (questions.length === 0) {
+    throw new Error('The model did not return any practice questions that could be graded.');
+  }
+  return {
+    id: createId(),
+    createdAt: Date.now(),
+    questions: questions.map(q => ({ ...q, id: createId() })),
+    attempts: []
+  };
+};
+
+const gradeCode = async (question: PracticeQuestion, response: string): Promise<PracticeGrade> => {
+  const execution = await executeQuestionCode(`${response}\n\n${question.test_harness}`, question.language || 'python');
+  const tests = parseTestOutput(execution.stdout, question.test_names || []);
+  const passed = tests.filter(t => t.passed).length;
+  const crash = execution.timedOut
+    ? ' The run timed out.'
+    : execution.exitCode !== 0 && execution.stderr ? ` Error: ${execution.stderr.trim().split('\n').pop()}` : '';
+  return {
+    questionId: question.id,
+    score: tests.length ? passed / tests.length : 0,
+    feedback: `${passed} of ${tests.length} tests passed.${crash}${execution.simulated ? ' (The run was simulated, so treat this as an estimate.)' : ''}`,
+    tests
+  };
+};
+
+export const gradeAnswer = async (question: PracticeQuestion, response: string): Promise<PracticeGrade> => {
+  if (!response.trim()) {
+    return { questionId: question.id, score: 0, feedback: 'No answer given.' };
+  }
+  switch (question.format) {
+    case 'multiple_choice': {
+      const correct = Number(response) === question.correct_choice;
+      return {
+        questionId: question.id,
+        score: correct ? 1 : 0,
+        feedback: correct ? 'Correct.' : `The correct answer is: ${question.choices?.[question.correct_choice!]}`
+      };
+    }
+    case 'coding':
+      return gradeCode(question, response);
+    case 'short_answer':
+      return { questionId: question.id, ...(await aiService.gradeShortAnswer(question, response)) };
+  }
+};
+
+/**
+ * Grades every answer of an attempt. Questions are graded independently, so
+ * one failing grader only costs that question its score.
+ */
+export const gradeAttempt = async (set: PracticeSet, answers: Record<string, string>): Promise<PracticeAttempt> => {
+  const grades = await Promise.all(set.questions.map(q =>
+    gradeAnswer(q, answers[q.id] || '').catch((err): PracticeGrade => {
+      console.error(`Grading practice question ${q.id} failed`, err);
+      return { questionId: q.id, score: 0, feedback: 'This answer could not be graded. Try submitting again.' };
+    })
+  ));
+  return {
+    id: createId(),
+    submittedAt: Date.now(),
+    answers,
+    grades,
+    score: grades.reduce((sum, g) => sum + g.score, 0) / Math.max(grades.length, 1)
+  };
+};
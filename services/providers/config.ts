@@ -0,0 +1,46 @@
+
+import { AIConfig, AIOperation, OperationConfig } from "./types";
+
+const STORAGE_KEY = 'aceassign_ai_config';
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  extraction: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  solving: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  verification: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  hints: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+  practice: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  grading: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  flashcards: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+  refine: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+  simulation: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+  chat: { provider: 'gemini', model: 'gemini-3-flash-preview' }
+};
+
+const parse = (raw: string | null | undefined, source: string): Partial<AIConfig> => {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Ignoring invalid AI config from ${source}`, e);
+    return {};
+  }
+};
+
+/**
+ * Resolves the provider/model for every operation. Later sources win:
+ * defaults, then the AI_CONFIG build variable, then the user's saved overrides.
+ */
+export const loadAIConfig = (): AIConfig => {
+  const fromEnv = parse(process.env.AI_CONFIG, 'AI_CONFIG');
+  const fromStorage = parse(localStorage.getItem(STORAGE_KEY), 'localStorage');
+  const config = { ...DEFAULT_AI_CONFIG };
+  for (const operation of Object.keys(DEFAULT_AI_CONFIG) as AIOperation[]) {
+    config[operation] = { ...config[operation], ...fromEnv[operation], ...fromStorage[operation] };
+  }
+  return config;
+};
+
+export const saveAIOverride = (operation: AIOperation, override: OperationConfig) => {
+  const saved = parse(localStorage.getItem(STORAGE_KEY), 'localStorage');
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...saved, [operation]: override }));
+};
@@ -0,0 +1,16 @@
+
+// Failed request to a model provider; `status` is the HTTP status when there was one
+export class ProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// The model answered, but not with JSON matching the requested schema
+export class ResponseValidationError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
@@ -0,0 +1,115 @@
+
+import { GoogleGenAI, Chat, Content, GenerateContentResponseUsageMetadata, Part } from "@google/genai";
+import { ChatRequest, ChatSession, GenerateRequest, LLMProvider, ToolResponse } from "./types";
+
+const API_KEY = process.env.API_KEY || "";
+
+class GeminiChatSession implements ChatSession {
+  private chat: Chat;
+  private pendingInstruction: string | null = null;
+
+  constructor(private ai: GoogleGenAI, private request: ChatRequest) {
+    this.chat = this.createChat(request.systemInstruction, request.history.map(m => ({
+      role: m.role,
+      parts: [{ text: m.text }]
+    })));
+  }
+
+  private createChat(systemInstruction: string, history: Content[]): Chat {
+    return this.ai.chats.create({
+      model: this.request.model,
+      history,
+      config: {
+        tools: [{
+          functionDeclarations: this.request.tools.map(t => ({
+            name: t.name,
+            description: t.description,
+            parametersJsonSchema: t.parameters
+          }))
+        }],
+        systemInstruction
+      }
+    });
+  }
+
+  updateSystemInstruction(instruction: string) {
+    this.pendingInstruction = instruction;
+  }
+
+  async sendMessageStream(message: string | ToolResponse[]) {
+    // A chat's config is fixed when it is created, so the conversation moves to a new one
+    if (this.pendingInstruction !== null) {
+      this.chat = this.createChat(this.pendingInstruction, this.chat.getHistory(true));
+      this.pendingInstruction = null;
+    }
+
+    const payload = typeof message === 'string'
+      ? message
+      : message.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.response } }));
+
+    const stream = await this.chat.sendMessageStream({ message: payload });
+    return (async function* () {
+      // Each chunk carries the running totals; the last one counts the whole response
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        usage = chunk.usageMetadata || usage;
+        yield {
+          text: chunk.text || '',
+          toolCalls: (chunk.functionCalls || []).map(fc => ({
+            id: fc.id,
+            name: fc.name || '',
+            args: (fc.args || {}) as Record<string, any>
+          }))
+        };
+      }
+      if (usage) {
+        yield {
+          usage: {
+            inputTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+            outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+          }
+        };
+      }
+    })();
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string = API_KEY) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const parts: Part[] = [
+      ...(request.files || []).map(f => ({
+        inlineData: {
+          data: f.base64,
+          mimeType: f.mimeType
+        }
+      })),
+      { text: request.prompt }
+    ];
+
+    const response = await this.ai.models.generateContent({
+      model: request.model,
+      contents: [{ parts }],
+      config: {
+        systemInstruction: request.systemInstruction,
+        abortSignal: request.signal,
+        ...(request.responseSchema && {
+          responseMimeType: "application/json",
+          responseJsonSchema: request.responseSchema
+        })
+      }
+    });
+
+    return response.text || "";
+  }
+
+  startChat(request: ChatRequest): ChatSession {
+    return new GeminiChatSession(this.ai, request);
+  }
+}
@@ -0,0 +1,170 @@
+
+import {
+  AIOperation, ChatChunk, ChatRequest, ChatSession, GenerateRequest, JsonSchema, LLMProvider, ToolResponse
+} from "./types";
+import { estimateTokens } from "../usage";
+
+type MockHandler = (request: GenerateRequest) => string;
+
+// Builds a deterministic value that satisfies the given schema
+export const sampleFromSchema = (schema: JsonSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([k, s]) => [k, sampleFromSchema(s, k)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, key)] : [];
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Mock ${key}`;
+  }
+};
+
+const MOCK_SOLUTIONS: Record<string, object> = {
+  '1': {
+    explanation: 'Lists are mutable sequences while tuples are immutable.',
+    solution: 'A list can be changed after creation; a tuple cannot.'
+  },
+  '2': {
+    explanation: 'Use the closed form $\\frac{n(n+1)}{2}$.',
+    solution: 'sum_n(10) == 55',
+    language: 'python',
+    code: 'def sum_n(n):\n    return n * (n + 1) // 2\n\nprint(sum_n(10))'
+  }
+};
+
+const DEFAULT_HANDLERS: Partial<Record<AIOperation, MockHandler>> = {
+  extraction: () => JSON.stringify({
+    title: 'Mock Assignment',
+    type: 'mixed',
+    questions: [
+      {
+        id: '1',
+        question_text: 'Explain the difference between a list and a tuple in Python.',
+        requires_execution: false,
+        source_file: 1
+      },
+      {
+        id: '2',
+        question_text: 'Write a function that returns the sum of the first n natural numbers.',
+        language: 'python',
+        requires_execution: true,
+        source_file: 1
+      }
+    ]
+  }),
+  solving: (request) => {
+    const id = request.prompt.match(/Solve only question ID: (\S+)/)?.[1] || '1';
+    return JSON.stringify(MOCK_SOLUTIONS[id] || MOCK_SOLUTIONS['1']);
+  },
+  verification: (request) => JSON.stringify(request.prompt.startsWith('Write test cases')
+    ? {
+        tests: [{ name: 'zero' }, { name: 'one' }, { name: 'ten' }],
+        harness: 'for name, n, expected in [("zero", 0, 0), ("one", 1, 1), ("ten", 10, 55)]:\n    got = sum_n(n)\n    print(f"PASS {name}" if got == expected else f"FAIL {name}: expected {expected}, got {got}")'
+      }
+    : { confidence: 'high', summary: 'Both solutions reach the same answer.', discrepancies: [] }),
+  practice: (request) => JSON.stringify(request.prompt.startsWith('Grade')
+    ? { score: 1, feedback: 'Correct: the answer covers every point of the rubric.' }
+    : {
+        questions: [
+          {
+            format: 'multiple_choice',
+            prompt: 'Which of these Python types is immutable?',
+            choices: ['list', 'dict', 'tuple', 'set'],
+            correct_choice: 2
+          },
+          {
+            format: 'short_answer',
+            prompt: 'Why can a tuple be used as a dictionary key but a list cannot?',
+            model_answer: 'Dictionary keys must be hashable; tuples are immutable and hashable, lists are mutable and not.',
+            rubric: 'Mentions hashability and links it to immutability.'
+          },
+          {
+            format: 'coding',
+            prompt: 'Write `sum_squares(n)` returning $1^2 + 2^2 + \\dots + n^2$.',
+            language: 'python',
+            starter_code: 'def sum_squares(n):\n    pass',
+            model_answer: 'def sum_squares(n):\n    return n * (n + 1) * (2 * n + 1) // 6',
+            test_harness: 'for name, n, expected in [("zero", 0, 0), ("three", 3, 14)]:\n    try:\n        got = sum_squares(n)\n        print(f"PASS {name}" if got == expected else f"FAIL {name}: expected {expected}, got {got}")\n    except Exception as e:\n        print(f"FAIL {name}: {e}")',
+            test_names: ['zero', 'three']
+          }
+        ]
+      }),
+  grading: (request) => JSON.stringify(request.prompt.startsWith('The attachments')
+    ? {
+        answers: [
+          { question_id: '1', answer: 'Lists can change, tuples are faster.' },
+          { question_id: '2', answer: '```python\ndef sum_n(n):\n    return sum(range(n))\n```' }
+        ]
+      }
+    : {
+        rubric: [
+          { description: 'Identifies the key idea', points: 6, awarded: 4, comment: 'Partly explained.' },
+          { description: 'Correct final result', points: 4, awarded: 2, comment: 'Off by one.' }
+        ],
+        comments: [{ excerpt: 'def', comment: 'Good start.' }],
+        feedback: 'A reasonable attempt; check the boundary cases.'
+      }),
+  flashcards: () => JSON.stringify({
+    cards: [
+      { kind: 'concept', question_id: '1', front: 'What makes a Python tuple different from a list?', back: 'A tuple is immutable; a list can be changed in place.' },
+      { kind: 'problem', question_id: '2', front: 'What is $1 + 2 + \\dots + n$ in closed form?', back: '$\\frac{n(n+1)}{2}$' }
+    ]
+  }),
+  refine: () => JSON.stringify({ replacement: 'A clearer version of the selected passage.' }),
+  simulation: () => 'Mock output'
+};
+
+class MockChatSession implements ChatSession {
+  constructor(private systemInstruction: string) {}
+
+  updateSystemInstruction(instruction: string) {
+    this.systemInstruction = instruction;
+  }
+
+  async sendMessageStream(message: string | ToolResponse[]): Promise<AsyncIterable<ChatChunk>> {
+    const text = typeof message === 'string'
+      ? `Mock tutor reply to: ${message}`
+      : `Mock tutor handled ${message.length} tool result(s).`;
+    // Estimated like a real provider's count, so the usage display has something to show offline
+    const usage = {
+      inputTokens: estimateTokens(this.systemInstruction) + estimateTokens(typeof message === 'string' ? message : JSON.stringify(message)),
+      outputTokens: estimateTokens(text)
+    };
+    return (async function* () {
+      yield { text };
+      yield { usage };
+    })();
+  }
+}
+
+/**
+ * Offline provider with fixed, deterministic responses, for trying the app
+ * without an API key (select it per operation in `AI_CONFIG`). Operations
+ * without a dedicated handler fall back to a value generated from the
+ * response schema; `handlers` replaces the built-in responses.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+  private handlers: Partial<Record<AIOperation, MockHandler>>;
+
+  constructor(handlers: Partial<Record<AIOperation, MockHandler>> = {}) {
+    this.handlers = { ...DEFAULT_HANDLERS, ...handlers };
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const handler = this.handlers[request.operation];
+    if (handler) return handler(request);
+    if (request.responseSchema) return JSON.stringify(sampleFromSchema(request.responseSchema));
+    return `Mock ${request.operation} response`;
+  }
+
+  startChat(request: ChatRequest): ChatSession {
+    return new MockChatSession(request.systemInstruction);
+  }
+}
@@ -0,0 +1,187 @@
+
+import {
+  ChatChunk, ChatRequest, ChatSession, GenerateRequest, LLMProvider, TokenUsage, ToolCall, ToolResponse
+} from "./types";
+import { ProviderError } from "./errors";
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string | Record<string, unknown>[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+const toContentPart = (file: { base64: string; mimeType: string; name?: string }) => {
+  const dataUrl = `data:${file.mimeType};base64,${file.base64}`;
+  if (file.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: dataUrl } };
+  }
+  return { type: 'file', file: { filename: file.name || 'document', file_data: dataUrl } };
+};
+
+const parseArgs = (raw: string): Record<string, any> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Yields the JSON payload of each `data:` line of a server-sent event stream
+async function* readEventStream(response: Response): AsyncGenerator<any> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI Chat Completions API
+ * (OpenAI itself, Azure-style gateways, vLLM, Ollama, LM Studio...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai';
+
+  constructor(
+    private apiKey: string = OPENAI_API_KEY,
+    private baseUrl: string = OPENAI_BASE_URL
+  ) {}
+
+  async request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new ProviderError(`OpenAI-compatible provider returned ${response.status}: ${await response.text()}`, response.status);
+    }
+    return response;
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const messages: OpenAIMessage[] = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({
+      role: 'user',
+      content: [
+        ...(request.files || []).map(toContentPart),
+        { type: 'text', text: request.prompt }
+      ]
+    });
+
+    const response = await this.request({
+      model: request.model,
+      messages,
+      ...(request.responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.operation, schema: request.responseSchema }
+        }
+      })
+    }, request.signal);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  startChat(request: ChatRequest): ChatSession {
+    return new OpenAIChatSession(this, request);
+  }
+}
+
+class OpenAIChatSession implements ChatSession {
+  private messages: OpenAIMessage[];
+
+  constructor(private provider: OpenAICompatibleProvider, private request: ChatRequest) {
+    this.messages = [
+      { role: 'system', content: request.systemInstruction },
+      ...request.history.map((m): OpenAIMessage => (
+        m.role === 'user' ? { role: 'user', content: m.text } : { role: 'assistant', content: m.text }
+      ))
+    ];
+  }
+
+  updateSystemInstruction(instruction: string) {
+    this.messages[0] = { role: 'system', content: instruction };
+  }
+
+  async sendMessageStream(message: string | ToolResponse[]): Promise<AsyncIterable<ChatChunk>> {
+    if (typeof message === 'string') {
+      this.messages.push({ role: 'user', content: message });
+    } else {
+      for (const r of message) {
+        this.messages.push({ role: 'tool', tool_call_id: r.id || r.name, content: JSON.stringify(r.response) });
+      }
+    }
+
+    const response = await this.provider.request({
+      model: this.request.model,
+      messages: this.messages,
+      stream: true,
+      // The usage comes in a final event with no choices
+      stream_options: { include_usage: true },
+      tools: this.request.tools.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.parameters }
+      }))
+    });
+
+    const messages = this.messages;
+    return (async function* () {
+      let text = '';
+      // Tool call arguments arrive as string fragments keyed by index
+      const pending: OpenAIToolCall[] = [];
+      let usage: TokenUsage | undefined;
+      for await (const event of readEventStream(response)) {
+        if (event.usage) usage = { inputTokens: event.usage.prompt_tokens || 0, outputTokens: event.usage.completion_tokens || 0 };
+        const delta = event.choices?.[0]?.delta;
+        if (!delta) continue;
+        if (delta.content) {
+          text += delta.content;
+          yield { text: delta.content };
+        }
+        for (const tc of delta.tool_calls || []) {
+          const call = pending[tc.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (tc.id) call.id = tc.id;
+          if (tc.function?.name) call.function.name += tc.function.name;
+          if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+        }
+      }
+
+      messages.push({ role: 'assistant', content: text || null, ...(pending.length && { tool_calls: pending }) });
+      if (pending.length) {
+        const toolCalls: ToolCall[] = pending.map(c => ({
+          id: c.id,
+          name: c.function.name,
+          args: parseArgs(c.function.arguments)
+        }));
+        yield { toolCalls };
+      }
+      if (usage) yield { usage };
+    })();
+  }
+}
@@ -0,0 +1,94 @@
+
+// Every model-backed operation the app performs. Each one can be routed to its own provider/model.
+export type AIOperation = 'extraction' | 'solving' | 'verification' | 'hints' | 'practice' | 'grading' | 'flashcards' | 'refine' | 'simulation' | 'chat';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Provider-neutral subset of JSON Schema used for structured output and tool parameters
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface InlineFile {
+  base64: string;
+  mimeType: string;
+  name?: string;
+}
+
+export interface GenerateRequest {
+  operation: AIOperation;
+  model: string;
+  prompt: string;
+  files?: InlineFile[];
+  systemInstruction?: string;
+  // When present the provider must return JSON text matching this schema
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatChunk {
+  text?: string;
+  toolCalls?: ToolCall[];
+  // Reported once per response, after the content, by providers that count tokens
+  usage?: TokenUsage;
+}
+
+export interface ChatRequest {
+  operation: AIOperation;
+  model: string;
+  systemInstruction: string;
+  history: ChatTurn[];
+  tools: ToolDefinition[];
+}
+
+export interface ChatSession {
+  sendMessageStream(message: string | ToolResponse[]): Promise<AsyncIterable<ChatChunk>>;
+  // Takes effect from the next message; the conversation so far is kept
+  updateSystemInstruction(instruction: string): void;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  generate(request: GenerateRequest): Promise<string>;
+  startChat(request: ChatRequest): ChatSession;
+}
+
+export interface OperationConfig {
+  provider: ProviderId;
+  model: string;
+}
+
+export type AIConfig = Record<AIOperation, OperationConfig>;
@@ -0,0 +1,55 @@
+
+import { JsonSchema } from "./types";
+import { ResponseValidationError } from "./errors";
+
+// Checks a parsed value against our JsonSchema subset and lists every mismatch by path
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const problems = (schema.required || [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key} is required`);
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          problems.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return problems;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return schema.items ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    case 'string':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path} should be one of ${schema.enum.join(', ')}`] : [];
+  }
+};
+
+/**
+ * Parses a structured model response. Models sometimes wrap JSON in a code
+ * fence even when asked not to, so that is tolerated; anything else that does
+ * not match the schema throws a ResponseValidationError.
+ */
+export const parseStructured = <T>(text: string, schema: JsonSchema): T => {
+  const body = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  if (!body) throw new ResponseValidationError('The model returned an empty response.');
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new ResponseValidationError('The model returned malformed JSON.');
+  }
+  const problems = validateSchema(value, schema);
+  if (problems.length > 0) {
+    throw new ResponseValidationError(`The model response did not match the expected format (${problems.slice(0, 3).join('; ')}).`, problems);
+  }
+  return value as T;
+};
@@ -0,0 +1,245 @@
+import { AssignmentResult } from "../types";
+import { htmlToMarkdown, markdownToHtml } from "./markdown";
+import { splitMath } from "./math";
+
+/**
+ * Selections in the rendered document, mapped back to the Markdown they came
+ * from. Positions count characters of the field's text with its LaTeX source,
+ * so a rendered formula is one unit that a selection either covers or not.
+ */
+
+export type RefineField = 'title' | 'question_text' | 'explanation' | 'solution';
+
+const FIELD_NAMES: Record<RefineField, string> = {
+  title: 'Title',
+  question_text: 'Question',
+  explanation: 'Explanation',
+  solution: 'Solution'
+};
+
+export interface TextRange {
+  start: number;
+  end: number;
+  // The characters in the range when it was taken, to find the span again after other edits
+  text: string;
+}
+
+// Text the student selected in the document, and where it is
+export interface DocumentSelection {
+  text: string;
+  questionId?: string;
+  // Set when the selection lies inside a single editable field
+  field?: RefineField;
+  range?: TextRange;
+}
+
+export interface RefineAction {
+  id: string;
+  label: string;
+  instruction: string;
+}
+
+export const REFINE_ACTIONS: RefineAction[] = [
+  { id: 'simplify', label: 'Simplify', instruction: 'Rewrite the passage in simpler words, keeping its meaning and any math.' },
+  { id: 'expand', label: 'Expand', instruction: 'Expand the passage with more detail and intermediate steps, in the same style.' },
+  { id: 'grammar', label: 'Fix grammar', instruction: 'Fix spelling, grammar and punctuation only. Change nothing else.' },
+  { id: 'bullets', label: 'Bullet points', instruction: 'Convert the passage into a Markdown bullet list, one point per item.' }
+];
+
+export const translateAction = (language: string): RefineAction => ({
+  id: 'translate',
+  label: `Translate to ${language}`,
+  instruction: `Translate the passage into ${language}. Leave math and code unchanged.`
+});
+
+export const isInlineField = (field: RefineField) => field === 'title';
+
+export const fieldValue = (result: AssignmentResult, selection: DocumentSelection): string | undefined => {
+  const { field } = selection;
+  if (!field) return undefined;
+  if (field === 'title') return result.title;
+  return result.questions.find(q => q.id === selection.questionId)?.[field];
+};
+
+export const selectionLabel = (result: AssignmentResult, selection: DocumentSelection): string => {
+  const name = selection.field ? FIELD_NAMES[selection.field] : 'Document';
+  const index = result.questions.findIndex(q => q.id === selection.questionId);
+  return index === -1 ? name : `Q${index + 1} ${name}`;
+};
+
+const textNodes = (root: Node): Text[] => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+const sourceContainer = (value: string, inline: boolean) => {
+  const container = document.createElement('div');
+  container.innerHTML = markdownToHtml(value, inline);
+  return container;
+};
+
+// Formulas with their place in the text, in the order renderMathHtml turns them into KaTeX
+const formulas = (container: HTMLElement): { start: number; end: number; raw: string }[] => {
+  const found: { start: number; end: number; raw: string }[] = [];
+  let pos = 0;
+  for (const node of textNodes(container)) {
+    if (!node.parentElement?.closest('code, pre')) {
+      let offset = pos;
+      for (const segment of splitMath(node.data)) {
+        const length = (segment.raw ?? segment.value).length;
+        if (segment.type === 'math') found.push({ start: offset, end: offset + length, raw: segment.raw! });
+        offset += length;
+      }
+    }
+    pos += node.data.length;
+  }
+  return found;
+};
+
+const mathRoot = (node: Node): Element | null => {
+  const parent = node.parentElement;
+  return parent?.closest('.katex-display') || parent?.closest('.katex') || null;
+};
+
+// Finds the range in the current value: where it was, or else the nearest copy of its text
+const locate = (source: string, range: TextRange): { start: number; end: number } | null => {
+  if (source.slice(range.start, range.end) === range.text) return { start: range.start, end: range.end };
+  let best = -1;
+  for (let i = source.indexOf(range.text); i !== -1; i = source.indexOf(range.text, i + 1)) {
+    if (best === -1 || Math.abs(i - range.start) < Math.abs(best - range.start)) best = i;
+  }
+  return best === -1 ? null : { start: best, end: best + range.text.length };
+};
+
+/**
+ * Maps a DOM selection inside a rendered field to a range of its source text.
+ * A boundary inside a formula widens the range to the whole formula.
+ */
+export const selectionRange = (block: Element, range: Range, value: string, inline: boolean): TextRange | null => {
+  if (!block.contains(range.startContainer) || !block.contains(range.endContainer)) return null;
+  const container = sourceContainer(value, inline);
+  const math = formulas(container);
+
+  let start: number | null = null;
+  let end: number | null = null;
+  // The block's text with formulas as source; the editor's DOM can drift from the stored Markdown
+  let text = '';
+  let formula = 0;
+  let lastRoot: Element | null = null;
+  for (const node of textNodes(block)) {
+    const root = mathRoot(node);
+    if (root) {
+      if (root === lastRoot) continue;
+      lastRoot = root;
+      if (start === null && (root.contains(range.startContainer) || range.comparePoint(node, 0) >= 0)) start = text.length;
+      if (end === null && range.comparePoint(node, 0) > 0) end = text.length;
+      text += math[formula++]?.raw || '';
+      if (end === null && root.contains(range.endContainer)) end = text.length;
+      continue;
+    }
+    if (start === null) {
+      if (node === range.startContainer) start = text.length + range.startOffset;
+      else if (range.comparePoint(node, 0) >= 0) start = text.length;
+    }
+    if (end === null) {
+      if (node === range.endContainer) end = text.length + range.endOffset;
+      else if (range.comparePoint(node, 0) > 0) end = text.length;
+    }
+    text += node.data.replace(/\u00a0/g, ' ');
+  }
+  start ??= text.length;
+  end ??= text.length;
+  const selected = text.slice(start, end);
+  if (!selected.trim()) return null;
+
+  const source = container.textContent || '';
+  const found = locate(source, { start, end, text: selected });
+  if (!found) return null;
+  // Half a formula is not math any more; take all of it (the source view shows LaTeX as text)
+  for (const span of math) {
+    if (span.start < found.end && span.end > found.start) {
+      found.start = Math.min(found.start, span.start);
+      found.end = Math.max(found.end, span.end);
+    }
+  }
+  return { ...found, text: source.slice(found.start, found.end) };
+};
+
+const domRange = (container: HTMLElement, start: number, end: number): Range => {
+  const nodes = textNodes(container);
+  const range = document.createRange();
+  range.setStart(container, container.childNodes.length);
+  range.collapse(true);
+  let pos = 0;
+  let started = false;
+  for (const node of nodes) {
+    const next = pos + node.data.length;
+    if (!started && start < next) {
+      range.setStart(node, start - pos);
+      started = true;
+    }
+    if (end <= next) {
+      range.setEnd(node, end - pos);
+      break;
+    }
+    pos = next;
+  }
+  return range;
+};
+
+const fragmentMarkdown = (fragment: DocumentFragment, inline: boolean) => {
+  const holder = document.createElement('div');
+  holder.appendChild(fragment);
+  return htmlToMarkdown(holder.innerHTML, inline);
+};
+
+// The selected passage and the text around it, as Markdown; null when the passage is gone
+export const splitAtSelection = (value: string, range: TextRange, inline: boolean): { before: string; selected: string; after: string } | null => {
+  const container = sourceContainer(value, inline);
+  const found = locate(container.textContent || '', range);
+  if (!found) return null;
+  const length = (container.textContent || '').length;
+  return {
+    before: fragmentMarkdown(domRange(container, 0, found.start).cloneContents(), inline),
+    selected: fragmentMarkdown(domRange(container, found.start, found.end).cloneContents(), inline),
+    after: fragmentMarkdown(domRange(container, found.end, length).cloneContents(), inline)
+  };
+};
+
+/**
+ * Replaces exactly the selected span with Markdown, keeping the formatting
+ * around it. Returns null when the passage can no longer be found.
+ */
+export const replaceRange = (value: string, range: TextRange, replacement: string, inline: boolean): string | null => {
+  const container = sourceContainer(value, inline);
+  const found = locate(container.textContent || '', range);
+  if (!found) return null;
+  const target = domRange(container, found.start, found.end);
+  target.deleteContents();
+
+  const holder = document.createElement('div');
+  holder.innerHTML = markdownToHtml(replacement.trim(), inline).trim();
+  // A single paragraph flows into the text around the selection instead of starting a new block
+  const only = holder.children.length === 1 && holder.firstElementChild;
+  const source = only && only.tagName === 'P' && holder.childNodes.length === 1 ? only : holder;
+  const fragment = document.createDocumentFragment();
+  fragment.append(...Array.from(source.childNodes));
+  target.insertNode(fragment);
+  return htmlToMarkdown(container.innerHTML, inline);
+};
+
+// The document with the selected span replaced, or null when the selection can't be found any more
+export const replaceSelection = (result: AssignmentResult, selection: DocumentSelection, replacement: string): AssignmentResult | null => {
+  const { field, range } = selection;
+  const value = fieldValue(result, selection);
+  if (!field || !range || value === undefined) return null;
+  const next = replaceRange(value, range, replacement, isInlineField(field));
+  if (next === null) return null;
+  if (field === 'title') return { ...result, title: next };
+  return {
+    ...result,
+    questions: result.questions.map(q => q.id === selection.questionId ? { ...q, [field]: next } : q)
+  };
+};
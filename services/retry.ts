@@ -0,0 +1,61 @@
+
+import { ProviderError, ResponseValidationError } from "./providers/errors";
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// How Chrome, Firefox, Safari and Node word the TypeError fetch rejects with when the request never completes
+const FETCH_FAILURE = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i;
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Rate limits, overloaded servers, dropped connections and malformed output are worth another try
+export const isTransientError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ResponseValidationError) return true;
+  // Other TypeErrors are bugs, not flaky networks
+  if (error instanceof TypeError) return FETCH_FAILURE.test(error.message);
+  const status = error instanceof ProviderError ? error.status : (error as { status?: unknown })?.status;
+  return typeof status === 'number' && TRANSIENT_STATUSES.includes(status);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `fn`, retrying transient failures with exponential backoff and jitter
+ * (1s, 2s, 4s by default). Aborting the signal stops immediately.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, signal, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      if (attempt >= retries || !isTransientError(error)) throw error;
+      onRetry?.(attempt + 1, error);
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay / 2 + Math.random() * delay / 2, signal);
+    }
+  }
+};
@@ -0,0 +1,310 @@
+
+import { AssignmentResult, AssignmentType, Question } from "../types";
+import { canonicalMarkdown, markdownToText } from "./markdown";
+import { DocumentSelection, fieldValue, replaceSelection, selectionLabel } from "./refine";
+
+export type ReviewableField = 'question_text' | 'explanation' | 'solution' | 'code' | 'language';
+
+export const REVIEWABLE_FIELDS: ReviewableField[] = ['question_text', 'explanation', 'solution', 'code', 'language'];
+
+// Fields stored as Markdown; tutor edits are normalized the same way as manual edits
+const MARKDOWN_FIELDS: ReviewableField[] = ['question_text', 'explanation', 'solution'];
+
+// Changes to the document's structure rather than to a text field
+export type StructuralChange = 'insert' | 'delete' | 'order' | 'type' | 'caption';
+
+export interface FieldChange {
+  key: string;
+  // Absent for assignment-level changes such as the title
+  questionId?: string;
+  field: ReviewableField | 'title' | StructuralChange;
+  label: string;
+  // Shown to the student as a diff; for structural changes a readable summary
+  before: string;
+  after: string;
+  // insert: the new question and the id it goes after (absent: at the end)
+  question?: Question;
+  afterId?: string;
+  // order: every question id in the new order
+  order?: string[];
+  // caption: the image being captioned
+  assetId?: string;
+}
+
+export interface ChangeProposal {
+  changes: FieldChange[];
+  // Edits that could not be reviewed, e.g. because they target an unknown question
+  skipped: string[];
+}
+
+const FIELD_LABELS: Record<FieldChange['field'], string> = {
+  title: 'Title',
+  question_text: 'Question',
+  explanation: 'Explanation',
+  solution: 'Solution',
+  code: 'Code',
+  language: 'Language',
+  insert: 'New question',
+  delete: 'Delete',
+  order: 'Question order',
+  type: 'Assignment type',
+  caption: 'Image caption'
+};
+
+/**
+ * Turns the arguments of an `update_assignment_content` call into a list of
+ * individual field changes against the current document. Unchanged values are dropped.
+ */
+export const buildProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const changes: FieldChange[] = [];
+  const skipped: string[] = [];
+
+  const title = typeof args.title === 'string' ? canonicalMarkdown(args.title, true) : undefined;
+  if (title !== undefined && title !== result.title) {
+    changes.push({ key: 'title', field: 'title', label: FIELD_LABELS.title, before: result.title, after: title });
+  }
+
+  for (const update of Array.isArray(args.questions) ? args.questions : []) {
+    const index = result.questions.findIndex(q => String(q.id) === String(update.id));
+    if (index === -1) {
+      skipped.push(`Question ${update.id} (not found)`);
+      continue;
+    }
+    const question = result.questions[index];
+    for (const field of REVIEWABLE_FIELDS) {
+      if (typeof update[field] !== 'string') continue;
+      const before = question[field] || '';
+      const after = MARKDOWN_FIELDS.includes(field) ? canonicalMarkdown(update[field]) : update[field];
+      if (after === before) continue;
+      changes.push({
+        key: `${question.id}:${field}`,
+        questionId: question.id,
+        field,
+        label: `Q${index + 1} ${FIELD_LABELS[field]}`,
+        before,
+        after
+      });
+    }
+  }
+
+  return { changes, skipped };
+};
+
+const questionSummary = (result: AssignmentResult, ids: string[]) =>
+  ids.map(id => {
+    const index = result.questions.findIndex(q => q.id === id);
+    return `Q${index + 1}: ${markdownToText(result.questions[index].question_text).slice(0, 80)}`;
+  }).join('\n');
+
+// Short ids like the extracted ones, so the tutor can keep referring to questions naturally
+const nextQuestionId = (result: AssignmentResult) => {
+  let n = result.questions.length + 1;
+  while (result.questions.some(q => q.id === String(n))) n++;
+  return String(n);
+};
+
+const insertProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const afterId = typeof args.after_id === 'string' && args.after_id ? args.after_id : undefined;
+  const afterIndex = afterId ? result.questions.findIndex(q => q.id === afterId) : -1;
+  if (afterId && afterIndex === -1) return { changes: [], skipped: [`New question (question ${afterId} not found)`] };
+  if (typeof args.question_text !== 'string' || !args.question_text.trim()) {
+    return { changes: [], skipped: ['New question (no question text)'] };
+  }
+  const question: Question = {
+    id: nextQuestionId(result),
+    question_text: canonicalMarkdown(args.question_text),
+    explanation: typeof args.explanation === 'string' ? canonicalMarkdown(args.explanation) : '',
+    requires_execution: typeof args.code === 'string' && !!args.code.trim()
+  };
+  if (typeof args.solution === 'string') question.solution = canonicalMarkdown(args.solution);
+  if (typeof args.code === 'string') question.code = args.code;
+  if (typeof args.language === 'string') question.language = args.language;
+  return {
+    changes: [{
+      key: `insert:${question.id}`,
+      field: 'insert',
+      label: afterId ? `${FIELD_LABELS.insert} after Q${afterIndex + 1}` : `${FIELD_LABELS.insert} at the end`,
+      before: '',
+      after: [question.question_text, question.explanation, question.solution, question.code].filter(Boolean).join('\n\n'),
+      question,
+      afterId
+    }],
+    skipped: []
+  };
+};
+
+const deleteProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const index = result.questions.findIndex(q => q.id === String(args.id));
+  if (index === -1) return { changes: [], skipped: [`Delete question ${args.id} (not found)`] };
+  const question = result.questions[index];
+  return {
+    changes: [{
+      key: `${question.id}:delete`,
+      questionId: question.id,
+      field: 'delete',
+      label: `${FIELD_LABELS.delete} Q${index + 1}`,
+      before: question.question_text,
+      after: ''
+    }],
+    skipped: []
+  };
+};
+
+const orderProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const order: string[] = Array.isArray(args.order) ? args.order.map(String) : [];
+  const current = result.questions.map(q => q.id);
+  if (order.length !== current.length || new Set(order).size !== order.length || !order.every(id => current.includes(id))) {
+    return { changes: [], skipped: ['Reorder (the new order must list every question id exactly once)'] };
+  }
+  if (order.every((id, i) => id === current[i])) return { changes: [], skipped: [] };
+  return {
+    changes: [{
+      key: 'order',
+      field: 'order',
+      label: FIELD_LABELS.order,
+      before: questionSummary(result, current),
+      after: questionSummary(result, order),
+      order
+    }],
+    skipped: []
+  };
+};
+
+const typeProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const type = args.type as AssignmentType;
+  if (!Object.values(AssignmentType).includes(type)) return { changes: [], skipped: [`Assignment type (unknown type ${args.type})`] };
+  if (type === result.type) return { changes: [], skipped: [] };
+  return { changes: [{ key: 'type', field: 'type', label: FIELD_LABELS.type, before: result.type, after: type }], skipped: [] };
+};
+
+const captionProposal = (result: AssignmentResult, args: Record<string, any>): ChangeProposal => {
+  const index = result.questions.findIndex(q => q.id === String(args.question_id));
+  const asset = result.questions[index]?.assets?.find(a => a.id === String(args.asset_id));
+  if (!asset) return { changes: [], skipped: [`Image caption (image ${args.asset_id} not found)`] };
+  const caption = typeof args.caption === 'string' ? args.caption.trim() : '';
+  if (caption === (asset.caption || '')) return { changes: [], skipped: [] };
+  return {
+    changes: [{
+      key: `${result.questions[index].id}:${asset.id}:caption`,
+      questionId: result.questions[index].id,
+      field: 'caption',
+      label: `Q${index + 1} ${FIELD_LABELS.caption}`,
+      before: asset.caption || '',
+      after: caption,
+      assetId: asset.id
+    }],
+    skipped: []
+  };
+};
+
+// A whole-field change whose only difference is the selected span
+const selectionProposal = (result: AssignmentResult, selection: DocumentSelection | null, args: Record<string, any>): ChangeProposal => {
+  if (!selection?.field || !selection.range) return { changes: [], skipped: ['Selection (nothing selected in a text field)'] };
+  const label = selectionLabel(result, selection);
+  const next = typeof args.text === 'string' ? replaceSelection(result, selection, args.text) : null;
+  if (!next) return { changes: [], skipped: [`${label} (the selected passage is no longer there)`] };
+  const before = fieldValue(result, selection) || '';
+  const after = fieldValue(next, selection) || '';
+  if (after === before) return { changes: [], skipped: [] };
+  return {
+    changes: [{
+      key: selection.field === 'title' ? 'title' : `${selection.questionId}:${selection.field}`,
+      questionId: selection.field === 'title' ? undefined : selection.questionId,
+      field: selection.field,
+      label,
+      before,
+      after
+    }],
+    skipped: []
+  };
+};
+
+/**
+ * Turns any document-editing tool call into a reviewable proposal. Returns
+ * null for tools that don't edit the document.
+ */
+export const buildToolProposal = (result: AssignmentResult, name: string, args: Record<string, any>, selection: DocumentSelection | null = null): ChangeProposal | null => {
+  switch (name) {
+    case 'update_assignment_content': return buildProposal(result, args);
+    case 'set_language': return buildProposal(result, { questions: [{ id: args.question_id, language: args.language }] });
+    case 'insert_question': return insertProposal(result, args);
+    case 'delete_question': return deleteProposal(result, args);
+    case 'reorder_questions': return orderProposal(result, args);
+    case 'set_assignment_type': return typeProposal(result, args);
+    case 'set_image_caption': return captionProposal(result, args);
+    case 'replace_selection': return selectionProposal(result, selection, args);
+    default: return null;
+  }
+};
+
+// Whether the document still holds what the student reviewed for this change
+const isCurrent = (result: AssignmentResult, change: FieldChange): boolean => {
+  const question = result.questions.find(q => q.id === change.questionId);
+  switch (change.field) {
+    case 'title': return result.title === change.before;
+    case 'type': return result.type === change.before;
+    case 'delete': return question?.question_text === change.before;
+    case 'caption': return (question?.assets?.find(a => a.id === change.assetId)?.caption || '') === change.before;
+    case 'insert':
+      return !result.questions.some(q => q.id === change.question?.id)
+        && (!change.afterId || result.questions.some(q => q.id === change.afterId));
+    case 'order': {
+      const ids = result.questions.map(q => q.id);
+      return ids.length === change.order?.length && ids.every(id => change.order!.includes(id))
+        && questionSummary(result, ids) === change.before;
+    }
+    default: return !!question && (question[change.field] || '') === change.before;
+  }
+};
+
+/**
+ * Lists the changes whose target was edited after the proposal was built, e.g.
+ * by a collaborator while the student was still reviewing.
+ */
+export const staleChanges = (result: AssignmentResult, changes: FieldChange[]): FieldChange[] =>
+  changes.filter(c => !isCurrent(result, c));
+
+// Field edits first, then deletions, insertions and finally the new order
+export const applyChanges = (result: AssignmentResult, changes: FieldChange[]): AssignmentResult => {
+  let { title, type } = result;
+  const byQuestion = new Map<string, Partial<Question>>();
+  const captions = new Map<string, string>();
+  for (const change of changes) {
+    if (change.field === 'title') {
+      title = change.after;
+    } else if (change.field === 'type') {
+      type = change.after as AssignmentType;
+    } else if (change.field === 'caption') {
+      captions.set(change.assetId!, change.after);
+    } else if (change.questionId && (REVIEWABLE_FIELDS as string[]).includes(change.field)) {
+      byQuestion.set(change.questionId, { ...byQuestion.get(change.questionId), [change.field]: change.after });
+    }
+  }
+
+  const deleted = changes.filter(c => c.field === 'delete').map(c => c.questionId);
+  let questions = result.questions
+    .filter(q => !deleted.includes(q.id))
+    .map(q => byQuestion.has(q.id) ? { ...q, ...byQuestion.get(q.id) } : q)
+    .map(q => q.assets?.some(a => captions.has(a.id))
+      ? { ...q, assets: q.assets.map(a => captions.has(a.id) ? { ...a, caption: captions.get(a.id) || undefined } : a) }
+      : q);
+
+  for (const change of changes) {
+    if (change.field !== 'insert' || !change.question) continue;
+    // A question whose anchor was deleted in the same batch goes to the end
+    const after = change.afterId ? questions.findIndex(q => q.id === change.afterId) : -1;
+    const at = after === -1 ? questions.length : after + 1;
+    questions = [...questions.slice(0, at), change.question, ...questions.slice(at)];
+  }
+
+  const order = changes.find(c => c.field === 'order')?.order;
+  if (order) {
+    const rank = (id: string) => {
+      const i = order.indexOf(id);
+      return i === -1 ? order.length : i;
+    };
+    questions = [...questions].sort((a, b) => rank(a.id) - rank(b.id));
+  }
+
+  return { ...result, title, type, questions };
+};
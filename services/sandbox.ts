@@ -0,0 +1,425 @@
+
+import { ExecutionResult } from "../types";
+
+const PYODIDE_URL = "https://cdn.jsdelivr.net/pyodide/v0.27.2/full/";
+const TYPESCRIPT_URL = "https://cdn.jsdelivr.net/npm/typescript@5.8.3/lib/typescript.js";
+
+// Upper bound on captured output so a runaway print loop cannot exhaust the page
+const MAX_OUTPUT_CHARS = 64 * 1024;
+
+export interface RunOptions {
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  // Aborting terminates the worker and rejects the run with the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface CodeRunner {
+  readonly languages: string[];
+  run(code: string, language: string, options?: RunOptions): Promise<ExecutionResult>;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RunOptions, 'signal'>> = {
+  timeoutMs: 10000,
+  memoryLimitMb: 256
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python',
+  python3: 'python',
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  ts: 'typescript'
+};
+
+export const normalizeLanguage = (language: string): string => {
+  const key = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[key] || key;
+};
+
+// Messages a sandboxed worker sends out; 'worker-error' stands in for the worker's error event
+type SandboxMessage = { type: string; [key: string]: unknown };
+
+// What a frame's code may load as scripts and connect to; everything else is refused
+interface FramePolicy {
+  scripts: string;
+  connect: string;
+}
+
+const JAVASCRIPT_POLICY: FramePolicy = { scripts: `'unsafe-eval' ${TYPESCRIPT_URL}`, connect: `'none'` };
+// Pyodide fetches its WebAssembly, standard library and package wheels from its CDN
+const PYTHON_POLICY: FramePolicy = { scripts: `'unsafe-eval' 'wasm-unsafe-eval' ${PYODIDE_URL}`, connect: PYODIDE_URL };
+
+// Worker scripts are shipped as strings and started from Blob URLs so they work both under Vite
+// and in the import-map build. The frame's only job is to start the worker and relay its messages.
+const frameDocument = (source: string, policy: FramePolicy, nonce: string) => `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}' ${policy.scripts}; connect-src ${policy.connect}; worker-src blob:">
+<script nonce="${nonce}">
+const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(source).replace(/</g, '\\u003c')}], { type: 'text/javascript' })));
+worker.onmessage = (event) => parent.postMessage(event.data, '*');
+worker.onerror = (event) => {
+  event.preventDefault();
+  parent.postMessage({ type: 'worker-error', message: event.message }, '*');
+};
+addEventListener('message', (event) => {
+  if (event.source === parent) worker.postMessage(event.data);
+});
+</script>`;
+
+/**
+ * A worker started inside its own sandboxed iframe. Without allow-same-origin
+ * the frame has an opaque origin, so the worker, and any worker or module it
+ * starts, can't reach the app's IndexedDB, storage or pages. The frame's
+ * Content Security Policy, which those workers inherit, limits what they may
+ * load and connect to. Terminating removes the frame and every worker in it.
+ */
+class SandboxWorker {
+  onmessage: ((message: SandboxMessage) => void) | null = null;
+  onerror: ((message: string) => void) | null = null;
+  private frame = document.createElement('iframe');
+  private loaded: Promise<void>;
+
+  constructor(source: string, policy: FramePolicy) {
+    this.frame.setAttribute('sandbox', 'allow-scripts');
+    this.frame.style.display = 'none';
+    this.frame.srcdoc = frameDocument(source, policy, crypto.randomUUID());
+    this.loaded = new Promise(resolve => this.frame.addEventListener('load', () => resolve(), { once: true }));
+    window.addEventListener('message', this.handleMessage);
+    document.body.appendChild(this.frame);
+  }
+
+  postMessage(message: Record<string, unknown>) {
+    this.loaded.then(() => this.frame.contentWindow?.postMessage(message, '*'));
+  }
+
+  terminate() {
+    window.removeEventListener('message', this.handleMessage);
+    this.frame.remove();
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.frame.contentWindow || !event.data) return;
+    if (event.data.type === 'worker-error') this.onerror?.(String(event.data.message || ''));
+    else this.onmessage?.(event.data);
+  };
+}
+
+const JAVASCRIPT_WORKER_SOURCE = `
+const MAX = ${MAX_OUTPUT_CHARS};
+let stdout = '';
+let stderr = '';
+const format = (args) => args.map(a => {
+  if (typeof a === 'string') return a;
+  try { return JSON.stringify(a); } catch (e) { return String(a); }
+}).join(' ');
+const write = (stream, args) => {
+  const line = format(args) + '\\n';
+  if (stream === 'out') stdout = (stdout + line).slice(0, MAX);
+  else stderr = (stderr + line).slice(0, MAX);
+};
+console.log = console.info = console.debug = (...a) => write('out', a);
+console.warn = console.error = (...a) => write('err', a);
+
+self.onmessage = async (event) => {
+  const { code, language } = event.data;
+  let source = code;
+  if (language === 'typescript') {
+    importScripts('${TYPESCRIPT_URL}');
+    source = self.ts.transpileModule(code, {
+      compilerOptions: { target: self.ts.ScriptTarget.ES2022, module: self.ts.ModuleKind.None }
+    }).outputText;
+  }
+  let exitCode = 0;
+  self.addEventListener('unhandledrejection', (e) => {
+    write('err', ['Uncaught (in promise)', e.reason && e.reason.stack ? e.reason.stack : String(e.reason)]);
+    exitCode = 1;
+  });
+  try {
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    await new AsyncFunction('"use strict";\\n' + source)();
+  } catch (err) {
+    write('err', [err && err.stack ? err.stack : String(err)]);
+    exitCode = 1;
+  }
+  // Let already-queued timers flush before reporting
+  await new Promise(r => setTimeout(r, 0));
+  self.postMessage({ type: 'done', stdout, stderr, exitCode });
+};
+`;
+
+// Python's heap is the interpreter's WebAssembly memory, which Emscripten grows through the JS API.
+// Refusing growth beyond a job's allowance makes the allocation fail with a MemoryError, however large
+// it is. Everything lives in a closure and the patched method can't be replaced, so user code reaching
+// JavaScript (js.eval and the like) can't lift the limit.
+const PYTHON_WORKER_SOURCE = `
+importScripts('${PYODIDE_URL}pyodide.js');
+(() => {
+const MAX = ${MAX_OUTPUT_CHARS};
+let stdout = '';
+let stderr = '';
+let allowance = Infinity;
+let limitHit = false;
+
+const grow = WebAssembly.Memory.prototype.grow;
+Object.defineProperty(WebAssembly.Memory.prototype, 'grow', {
+  value: function (pages) {
+    if (pages * 65536 > allowance) {
+      limitHit = true;
+      throw new RangeError('Sandbox memory limit exceeded');
+    }
+    allowance -= pages * 65536;
+    return grow.call(this, pages);
+  },
+  writable: false,
+  configurable: false
+});
+
+const PRELUDE = \`
+import sys, traceback
+
+def _aceassign_run(src):
+    try:
+        exec(compile(src, '<main>', 'exec'), {'__name__': '__main__'})
+        return 0
+    except SystemExit as e:
+        return e.code if isinstance(e.code, int) else (0 if e.code is None else 1)
+    except BaseException:
+        traceback.print_exc()
+        return 1
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+\`;
+
+const ready = (async () => {
+  const pyodide = await loadPyodide({ indexURL: '${PYODIDE_URL}' });
+  pyodide.setStdout({ batched: (s) => { stdout = (stdout + s + '\\n').slice(0, MAX); } });
+  pyodide.setStderr({ batched: (s) => { stderr = (stderr + s + '\\n').slice(0, MAX); } });
+  pyodide.setStdin({ error: true });
+  pyodide.runPython(PRELUDE);
+  // Callbacks user code leaves scheduled get no memory between jobs
+  allowance = 0;
+  return pyodide;
+})();
+
+ready.then(
+  () => self.postMessage({ type: 'ready' }),
+  (err) => self.postMessage({ type: 'load-error', message: String(err) })
+);
+
+self.onmessage = async (event) => {
+  const { code, memoryLimitMb } = event.data;
+  const pyodide = await ready;
+  stdout = '';
+  stderr = '';
+  allowance = Infinity;
+  try {
+    await pyodide.loadPackagesFromImports(code);
+  } catch (err) {
+    stderr += 'Failed to load packages: ' + String(err) + '\\n';
+  }
+  const run = pyodide.globals.get('_aceassign_run');
+  let exitCode = 1;
+  // Only the user's code counts against the limit, not loading packages
+  allowance = memoryLimitMb * 1024 * 1024;
+  limitHit = false;
+  try {
+    exitCode = run(code);
+  } catch (err) {
+    stderr += String(err) + '\\n';
+  } finally {
+    allowance = 0;
+    run.destroy();
+  }
+  if (limitHit) stderr += 'Sandbox memory limit of ' + memoryLimitMb + ' MB exceeded.\\n';
+  self.postMessage({ type: 'done', stdout, stderr, exitCode });
+};
+})();
+`;
+
+interface WorkerDone {
+  type: 'done';
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+// Posts one job to a worker and resolves with its result, killing the worker if
+// it overruns the timeout or dies (e.g. the browser aborts it on heap exhaustion).
+// An abort kills it too, and rejects instead of resolving.
+const runInWorker = (
+  worker: SandboxWorker,
+  payload: Record<string, unknown>,
+  options: typeof DEFAULT_OPTIONS & RunOptions
+): Promise<ExecutionResult & { terminated: boolean }> => {
+  const startedAt = performance.now();
+  const { signal } = options;
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      worker.onmessage = null;
+      worker.onerror = null;
+    };
+
+    const finish = (result: Omit<ExecutionResult, 'durationMs'>, terminated: boolean) => {
+      cleanup();
+      if (terminated) worker.terminate();
+      resolve({ ...result, durationMs: Math.round(performance.now() - startedAt), terminated });
+    };
+
+    const abort = () => {
+      cleanup();
+      worker.terminate();
+      reject(signal!.reason);
+    };
+
+    const timer = setTimeout(() => {
+      finish({
+        stdout: '',
+        stderr: `Execution timed out after ${options.timeoutMs} ms.`,
+        exitCode: 124,
+        timedOut: true
+      }, true);
+    }, options.timeoutMs);
+
+    worker.onmessage = (message) => {
+      if (message.type !== 'done') return;
+      const { stdout, stderr, exitCode } = message as unknown as WorkerDone;
+      finish({ stdout, stderr, exitCode }, false);
+    };
+
+    worker.onerror = (message) => {
+      finish({
+        stdout: '',
+        stderr: message || 'Sandbox worker crashed (possibly out of memory).',
+        exitCode: 137
+      }, true);
+    };
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort);
+    worker.postMessage({ ...payload, memoryLimitMb: options.memoryLimitMb });
+  });
+};
+
+/**
+ * Runs JavaScript and TypeScript in a fresh dedicated worker per execution.
+ * Memory is bounded by the browser's per-worker heap; a worker that exhausts it
+ * is reported with exit code 137.
+ */
+export class JavaScriptRunner implements CodeRunner {
+  readonly languages = ['javascript', 'typescript'];
+
+  async run(code: string, language: string, options: RunOptions = {}): Promise<ExecutionResult> {
+    options.signal?.throwIfAborted();
+    const worker = new SandboxWorker(JAVASCRIPT_WORKER_SOURCE, JAVASCRIPT_POLICY);
+    const { terminated, ...result } = await runInWorker(
+      worker,
+      { code, language },
+      { ...DEFAULT_OPTIONS, ...options }
+    );
+    if (!terminated) worker.terminate();
+    return result;
+  }
+}
+
+/**
+ * Runs Python through Pyodide. The interpreter is expensive to boot, so one
+ * worker is kept warm and jobs are queued; the worker is discarded and rebooted
+ * whenever a job times out, crashes or is aborted. Each job may grow the
+ * interpreter's heap by at most its memory limit.
+ */
+export class PyodideRunner implements CodeRunner {
+  readonly languages = ['python'];
+  private worker: Promise<SandboxWorker> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private boot(): Promise<SandboxWorker> {
+    if (!this.worker) {
+      this.worker = new Promise((resolve, reject) => {
+        const worker = new SandboxWorker(PYTHON_WORKER_SOURCE, PYTHON_POLICY);
+        worker.onmessage = (message) => {
+          if (message.type === 'ready') resolve(worker);
+          if (message.type === 'load-error') {
+            worker.terminate();
+            reject(new Error(`Failed to load Python runtime: ${message.message}`));
+          }
+        };
+        worker.onerror = (message) => {
+          worker.terminate();
+          reject(new Error(message || 'Failed to load Python runtime.'));
+        };
+      });
+      this.worker.catch(() => { this.worker = null; });
+    }
+    return this.worker;
+  }
+
+  run(code: string, _language: string, options: RunOptions = {}): Promise<ExecutionResult> {
+    const job = this.queue.then(async () => {
+      // A job cancelled while it waited in the queue never reaches the warm worker
+      options.signal?.throwIfAborted();
+      let worker: SandboxWorker;
+      try {
+        worker = await this.boot();
+      } catch (err: any) {
+        return { stdout: '', stderr: err.message, exitCode: 1, durationMs: 0 };
+      }
+      options.signal?.throwIfAborted();
+      try {
+        const { terminated, ...result } = await runInWorker(worker, { code }, { ...DEFAULT_OPTIONS, ...options });
+        if (terminated) this.worker = null;
+        return result;
+      } catch (err) {
+        // Aborted mid-run: the worker was terminated and boots again for the next job
+        this.worker = null;
+        throw err;
+      }
+    });
+    this.queue = job.catch(() => undefined);
+    return job;
+  }
+}
+
+export class SandboxService {
+  private runners: CodeRunner[] = [new PyodideRunner(), new JavaScriptRunner()];
+
+  register(runner: CodeRunner) {
+    this.runners.unshift(runner);
+  }
+
+  supports(language: string): boolean {
+    return this.findRunner(language) !== undefined;
+  }
+
+  async run(code: string, language: string, options?: RunOptions): Promise<ExecutionResult> {
+    const normalized = normalizeLanguage(language);
+    const runner = this.findRunner(normalized);
+    if (!runner) {
+      throw new Error(`No sandbox runner is available for ${language}.`);
+    }
+    return runner.run(code, normalized, options);
+  }
+
+  private findRunner(language: string): CodeRunner | undefined {
+    const normalized = normalizeLanguage(language);
+    return this.runners.find(r => r.languages.includes(normalized));
+  }
+}
+
+// Flattens a structured result into the single string kept on Question.execution_output
+export const formatExecutionOutput = (result: ExecutionResult): string => {
+  const parts: string[] = [];
+  if (result.simulated) parts.push('[Simulated output – this code was not executed]');
+  if (result.stdout) parts.push(result.stdout.trimEnd());
+  if (result.stderr) parts.push(result.stderr.trimEnd());
+  if (!result.simulated) parts.push(`[exit code ${result.exitCode}]`);
+  return parts.join('\n');
+};
+
+export const sandbox = new SandboxService();
@@ -0,0 +1,119 @@
+import { AssignmentResult } from "../types";
+
+/**
+ * Shareable bundles: a whole AssignmentResult, images included, as gzipped
+ * JSON. The same bytes go into a `.aceassign` file or, base64url-encoded,
+ * into the `#bundle=` fragment of a link, which never reaches a server.
+ */
+
+export const BUNDLE_EXTENSION = 'aceassign';
+const BUNDLE_FORMAT = 'aceassign';
+const BUNDLE_VERSION = 1;
+const LINK_PREFIX = '#bundle=';
+// Chrome refuses to open longer URLs
+const MAX_LINK_LENGTH = 2 * 1024 * 1024;
+
+interface Bundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: number;
+  result: AssignmentResult;
+}
+
+// The bundle could not be created or opened; the message is meant for the user
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const compress = async (text: string): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer());
+
+const decompress = (bytes: Uint8Array): Promise<string> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Images are normally data URLs already; anything else is fetched now so the bundle works offline
+const inlineAssets = async (result: AssignmentResult): Promise<AssignmentResult> => ({
+  ...result,
+  questions: await Promise.all(result.questions.map(async q => !q.assets ? q : {
+    ...q,
+    assets: await Promise.all(q.assets.map(async asset => {
+      if (asset.url.startsWith('data:')) return asset;
+      try {
+        return { ...asset, url: await readAsDataUrl(await (await fetch(asset.url)).blob()) };
+      } catch (err) {
+        console.error(`Could not embed image ${asset.id}`, err);
+        return asset;
+      }
+    }))
+  }))
+});
+
+export const createBundle = async (result: AssignmentResult): Promise<Uint8Array> => {
+  const bundle: Bundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, createdAt: Date.now(), result: await inlineAssets(result) };
+  return compress(JSON.stringify(bundle));
+};
+
+export const readBundle = async (bytes: Uint8Array): Promise<AssignmentResult> => {
+  let bundle: Partial<Bundle>;
+  try {
+    bundle = JSON.parse(await decompress(bytes));
+  } catch {
+    throw new BundleError("This is not a shared assignment, or it was damaged in transit.");
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.version !== 'number') {
+    throw new BundleError("This is not a shared assignment.");
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new BundleError("This assignment was shared from a newer version of AceAssign. Update the app to open it.");
+  }
+  const { result } = bundle;
+  if (!result || typeof result.title !== 'string' || !Array.isArray(result.questions)) {
+    throw new BundleError("The shared assignment is incomplete.");
+  }
+  return result;
+};
+
+export const createShareLink = async (result: AssignmentResult): Promise<string> => {
+  const link = `${window.location.origin}${window.location.pathname}${LINK_PREFIX}${toBase64Url(await createBundle(result))}`;
+  if (link.length > MAX_LINK_LENGTH) {
+    throw new BundleError("This assignment is too large for a link, mostly because of its images. Share the .aceassign file instead.");
+  }
+  return link;
+};
+
+// Null when the fragment does not hold a bundle
+export const readShareLink = (hash: string): Promise<AssignmentResult> | null => {
+  if (!hash.startsWith(LINK_PREFIX)) return null;
+  try {
+    return readBundle(fromBase64Url(hash.slice(LINK_PREFIX.length)));
+  } catch {
+    return Promise.reject(new BundleError("This link is incomplete. Ask for it to be shared again."));
+  }
+};
+
+export const readBundleFile = async (file: File): Promise<AssignmentResult> =>
+  readBundle(new Uint8Array(await file.arrayBuffer()));
@@ -0,0 +1,67 @@
+import { AssignmentResult, ExecutionResult } from "../types";
+import { executeQuestionCode } from "./execution";
+import { isSolutionHidden } from "./learning";
+import { markdownToText } from "./markdown";
+import { DocumentSelection, fieldValue, isInlineField, splitAtSelection } from "./refine";
+
+export interface CodeRun {
+  // Set when the question's own code ran, so its output belongs in the document
+  questionId?: string;
+  execution: ExecutionResult;
+}
+
+// Long outputs would crowd out the conversation; the model gets the start of them
+const MAX_OUTPUT_CHARS = 4000;
+
+const clip = (text: string) =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n... (${text.length - MAX_OUTPUT_CHARS} more characters)` : text;
+
+export const runCode = async (result: AssignmentResult, args: Record<string, any>, signal?: AbortSignal): Promise<CodeRun> => {
+  const question = args.question_id !== undefined ? result.questions.find(q => q.id === String(args.question_id)) : undefined;
+  if (args.question_id !== undefined && !question) throw new Error(`Question ${args.question_id} not found.`);
+  const ownCode = typeof args.code !== 'string';
+  const code = ownCode ? question?.code : args.code;
+  if (!code) throw new Error(question ? `Question ${question.id} has no code to run.` : 'Pass `code`, or the `question_id` of a question with code.');
+  // Its output would give the hidden solution away
+  if (ownCode && question && isSolutionHidden(result, question)) {
+    throw new Error(`The solution of question ${question.id} is hidden in learning mode; its code can only be run once the student reveals it.`);
+  }
+  const language = (typeof args.language === 'string' && args.language) || question?.language || 'python';
+  const execution = await executeQuestionCode(code, language, signal);
+  return { questionId: ownCode ? question?.id : undefined, execution };
+};
+
+export const codeRunResponse = ({ execution }: CodeRun): Record<string, unknown> => ({
+  stdout: clip(execution.stdout),
+  stderr: clip(execution.stderr),
+  exit_code: execution.exitCode,
+  timed_out: !!execution.timedOut,
+  // Simulated output is a model's prediction; say so rather than present it as a real run
+  simulated: !!execution.simulated
+});
+
+export const selectionResponse = (result: AssignmentResult, selection: DocumentSelection | null): Record<string, unknown> => {
+  if (!selection?.text.trim()) {
+    return { error: "The student hasn't selected anything in the document. Ask them to highlight the passage they mean." };
+  }
+  const index = selection.questionId ? result.questions.findIndex(q => q.id === selection.questionId) : -1;
+  const value = fieldValue(result, selection);
+  const passage = selection.field && selection.range && value !== undefined
+    ? splitAtSelection(value, selection.range, isInlineField(selection.field))
+    : null;
+  return {
+    selected_text: passage?.selected ?? selection.text,
+    ...(index !== -1 && {
+      question_id: result.questions[index].id,
+      question_number: index + 1,
+      question_text: markdownToText(result.questions[index].question_text)
+    }),
+    // Where the passage is, so replace_selection can change just that span
+    ...(passage && {
+      field: selection.field,
+      start: selection.range!.start,
+      end: selection.range!.end,
+      can_replace: true
+    })
+  };
+};
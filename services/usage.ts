@@ -0,0 +1,42 @@
+import { TokenUsage } from "./providers/types";
+
+// USD per million tokens, from the providers' published list prices; good enough for an estimate
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'mock': { input: 0, output: 0 }
+};
+
+export const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+// Rough count for text the provider hasn't measured: about four characters per token in English
+export const estimateTokens = (text: string | undefined): number => Math.ceil((text?.length || 0) / 4);
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens
+});
+
+// Dated snapshots ("gpt-4o-2024-08-06") are priced like their base model; null for unknown models
+export const estimateCost = (model: string, usage: TokenUsage): number | null => {
+  const key = Object.keys(MODEL_PRICES)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model === name || model.startsWith(`${name}-`));
+  if (!key) return null;
+  const price = MODEL_PRICES[key];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
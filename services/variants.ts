@@ -0,0 +1,76 @@
+
+import { Question, SolutionVariant } from "../types";
+import { isSolutionRevealed } from "./learning";
+import { createId } from "./library";
+
+export interface GuidancePreset {
+  label: string;
+  guidance: string;
+}
+
+export const GUIDANCE_PRESETS: GuidancePreset[] = [
+  { label: 'More concise', guidance: 'Make it noticeably shorter: keep only the essential steps.' },
+  { label: 'Different method', guidance: 'Use a different method or approach than the current solution.' },
+  { label: 'Beginner level', guidance: 'Explain it for a beginner: define every term and avoid skipping steps.' },
+  { label: 'More rigorous', guidance: 'Make it more rigorous: justify every step formally.' }
+];
+
+const snapshot = (q: Question, label: string, id = createId()): SolutionVariant => ({
+  id,
+  label,
+  createdAt: Date.now(),
+  explanation: q.explanation,
+  solution: q.solution,
+  code: q.code,
+  language: q.language,
+  execution_output: q.execution_output,
+  execution: q.execution,
+  verification: q.verification,
+  hints: q.hints,
+  revealLevel: q.revealLevel
+});
+
+const apply = (q: Question, variant: SolutionVariant): Question => ({
+  ...q,
+  explanation: variant.explanation,
+  solution: variant.solution,
+  code: variant.code,
+  language: variant.language,
+  execution_output: variant.execution_output,
+  execution: variant.execution,
+  verification: variant.verification,
+  // Hints walk towards one particular solution, so each variant keeps its own
+  hints: variant.hints,
+  revealLevel: variant.revealLevel,
+  activeVariantId: variant.id
+});
+
+// The active variant as currently shown, including any edits made since it was generated
+const withCurrentSaved = (q: Question): SolutionVariant[] => {
+  if (!q.variants?.length || !q.activeVariantId) return [snapshot(q, 'Original')];
+  return q.variants.map(v => v.id === q.activeVariantId ? { ...snapshot(q, v.label, v.id), createdAt: v.createdAt } : v);
+};
+
+/**
+ * Adds a regenerated solution as a new variant and makes it active. The
+ * previous solution is kept as a variant, so nothing is lost.
+ */
+export const addVariant = (q: Question, regenerated: Question, label: string): Question => {
+  // The new solution gets a fresh hint ladder; a solution already revealed stays revealed
+  const variant = { ...snapshot(regenerated, label), hints: undefined, revealLevel: isSolutionRevealed(q) ? 1 : undefined };
+  return apply({ ...q, variants: [...withCurrentSaved(q), variant] }, variant);
+};
+
+export const selectVariant = (q: Question, variantId: string): Question => {
+  const variants = withCurrentSaved(q);
+  const variant = variants.find(v => v.id === variantId);
+  return variant ? apply({ ...q, variants }, variant) : q;
+};
+
+export const removeVariant = (q: Question, variantId: string): Question => {
+  const variants = withCurrentSaved(q).filter(v => v.id !== variantId);
+  if (variants.length === 0) return q;
+  const next = variantId === q.activeVariantId ? apply({ ...q, variants }, variants[variants.length - 1]) : { ...q, variants };
+  // A single remaining solution is just the question itself
+  return variants.length > 1 ? next : { ...next, variants: undefined, activeVariantId: undefined };
+};
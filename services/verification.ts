@@ -0,0 +1,73 @@
+
+import { AssignmentResult, FileData, Question, TestCaseResult, VerificationConfidence, VerificationResult } from "../types";
+import { aiService } from "./ai";
+import { executeQuestionCode } from "./execution";
+
+const RESULT_LINE = /^(PASS|FAIL)\s+([^\s:]+)(?::\s*(.*))?$/;
+
+// Reads the PASS/FAIL lines printed by a generated test harness; tests that printed nothing count as failed
+export const parseTestOutput = (stdout: string, names: string[]): TestCaseResult[] => {
+  const reported = new Map<string, TestCaseResult>();
+  for (const line of stdout.split('\n')) {
+    const match = line.trim().match(RESULT_LINE);
+    if (match) reported.set(match[2], { name: match[2], passed: match[1] === 'PASS', detail: match[3] || undefined });
+  }
+  const missing = names
+    .filter(name => !reported.has(name))
+    .map(name => ({ name, passed: false, detail: 'No result was reported.' }));
+  return [...reported.values(), ...missing];
+};
+
+const testConfidence = (tests: TestCaseResult[], simulated: boolean): VerificationConfidence => {
+  const failed = tests.filter(t => !t.passed).length;
+  if (tests.length === 0 || failed > tests.length / 3) return 'low';
+  // Simulated output is only as reliable as the model producing it
+  if (failed > 0 || simulated) return 'medium';
+  return 'high';
+};
+
+const verifyCode = async (question: Question, signal?: AbortSignal): Promise<VerificationResult> => {
+  const suite = await aiService.generateTestCases(question, signal);
+  const execution = await executeQuestionCode(`${question.code}\n\n${suite.harness}`, question.language || 'python', signal);
+  const tests = parseTestOutput(execution.stdout, suite.tests.map(t => t.name));
+  const passed = tests.filter(t => t.passed).length;
+  const discrepancies = tests
+    .filter(t => !t.passed)
+    .map(t => `Test "${t.name}" failed${t.detail ? `: ${t.detail}` : '.'}`);
+  if (execution.timedOut) discrepancies.unshift('The test run timed out.');
+  else if (execution.exitCode !== 0 && execution.stderr) discrepancies.unshift(`The test run crashed: ${execution.stderr.trim().split('\n').pop()}`);
+
+  return {
+    confidence: testConfidence(tests, !!execution.simulated),
+    method: 'test-cases',
+    summary: `${passed} of ${tests.length} generated test cases passed${execution.simulated ? ' (simulated run)' : ''}.`,
+    discrepancies,
+    tests,
+    checkedAt: Date.now()
+  };
+};
+
+const verifyTheory = async (files: FileData[], outline: AssignmentResult, question: Question, signal?: AbortSignal): Promise<VerificationResult> => {
+  // The second solve must not see the first answer, or it will tend to repeat it
+  const blank: Question = { ...question, explanation: '', solution: undefined, code: undefined, variants: undefined };
+  const independent = await aiService.solveQuestion(files, outline, blank, { signal });
+  const comparison = await aiService.compareSolutions(outline, question, independent, signal);
+  return {
+    ...comparison,
+    method: 'independent-solve',
+    checkedAt: Date.now()
+  };
+};
+
+/**
+ * Cross-checks a solved question: code is run against generated test cases,
+ * everything else is compared with an independent second solve.
+ */
+export const verifyQuestion = (files: FileData[], outline: AssignmentResult, question: Question, signal?: AbortSignal): Promise<VerificationResult> =>
+  question.code ? verifyCode(question, signal) : verifyTheory(files, outline, question, signal);
+
+export const CONFIDENCE_LABELS: Record<VerificationConfidence, string> = {
+  high: 'High confidence',
+  medium: 'Medium confidence',
+  low: 'Low confidence'
+};
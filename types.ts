@@ -12,6 +12,58 @@ export interface QuestionAsset {
   caption?: string;
 }
 
+export interface ExecutionResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+  timedOut?: boolean;
+  // True when the output was produced by a model rather than a real runner
+  simulated?: boolean;
+}
+
+// Where in the uploaded material a question was found
+export interface QuestionSource {
+  fileIndex: number;
+  fileName: string;
+  page?: number;
+}
+
+export type VerificationConfidence = 'high' | 'medium' | 'low';
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+// Outcome of the optional self-check that runs after solving
+export interface VerificationResult {
+  confidence: VerificationConfidence;
+  // Theory answers are compared with an independent solve; code is run against generated tests
+  method: 'independent-solve' | 'test-cases';
+  summary: string;
+  discrepancies: string[];
+  tests?: TestCaseResult[];
+  checkedAt: number;
+}
+
+// One generated solution of a question, kept so the user can switch between alternatives
+export interface SolutionVariant {
+  id: string;
+  label: string;
+  createdAt: number;
+  explanation: string;
+  solution?: string;
+  code?: string;
+  language?: string;
+  execution_output?: string;
+  execution?: ExecutionResult;
+  verification?: VerificationResult;
+  hints?: string[];
+  revealLevel?: number;
+}
+
 export interface Question {
   id: string;
   question_text: string;
@@ -20,27 +72,170 @@ export interface Question {
   solution?: string;
   code?: string;
   execution_output?: string;
+  execution?: ExecutionResult;
   explanation: string;
   assets?: QuestionAsset[];
+  source?: QuestionSource;
+  // Set when the question could not be solved; it has no explanation or solution yet
+  error?: string;
+  verification?: VerificationResult;
+  // Learning mode: graded hints from a nudge up to the full working, and how many the student has opened
+  hints?: string[];
+  revealLevel?: number;
+  // Alternative solutions; the fields above always hold the active one
+  variants?: SolutionVariant[];
+  activeVariantId?: string;
 }
 
 export interface AssignmentResult {
   type: AssignmentType;
   title: string;
   questions: Question[];
+  // Hides solutions behind a hint ladder until the student asks for them
+  learningMode?: boolean;
 }
 
 export enum ProcessingStep {
   IDLE = 'idle',
   EXTRACTING = 'extracting',
-  CLASSIFYING = 'classifying',
   SOLVING = 'solving',
+  VERIFYING = 'verifying',
   COMPLETED = 'completed',
   ERROR = 'error'
 }
 
+export type QuestionStatus = 'pending' | 'solving' | 'executing' | 'done' | 'failed' | 'verifying' | 'verified';
+
+// Live state of one question while the pipeline works through the outline
+export interface QuestionProgress {
+  id: string;
+  label: string;
+  status: QuestionStatus;
+}
+
 export interface FileData {
   name: string;
   type: string;
   base64: string;
+  pageCount?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  isSystem?: boolean;
+  // Summary of the messages before it; the tutor gets this instead of them
+  isSummary?: boolean;
+  timestamp: number;
+}
+
+export type PracticeFormat = 'multiple_choice' | 'short_answer' | 'coding';
+
+// A new question modelled on the assignment, with the key needed to grade it
+export interface PracticeQuestion {
+  id: string;
+  format: PracticeFormat;
+  // Markdown with LaTeX math
+  prompt: string;
+  choices?: string[];
+  correct_choice?: number;
+  // Reference answer for short answers, and the grading rubric for the model
+  model_answer?: string;
+  rubric?: string;
+  language?: string;
+  starter_code?: string;
+  // Appended to the student's code; prints one PASS/FAIL line per test like verification harnesses
+  test_harness?: string;
+  test_names?: string[];
+}
+
+export interface PracticeGrade {
+  questionId: string;
+  // 0 to 1
+  score: number;
+  feedback: string;
+  tests?: TestCaseResult[];
+}
+
+export interface PracticeAttempt {
+  id: string;
+  submittedAt: number;
+  // Student responses by question id; multiple choice stores the chosen index
+  answers: Record<string, string>;
+  grades: PracticeGrade[];
+  score: number;
+}
+
+export interface PracticeSet {
+  id: string;
+  createdAt: number;
+  questions: PracticeQuestion[];
+  attempts: PracticeAttempt[];
+}
+
+export interface RubricCriterion {
+  description: string;
+  points: number;
+  awarded: number;
+  comment?: string;
+}
+
+// A remark anchored to a verbatim excerpt of the student's answer
+export interface InlineComment {
+  excerpt: string;
+  comment: string;
+}
+
+export interface GradedAnswer {
+  questionId: string;
+  // The student's answer transcribed as Markdown; empty when nothing was found for the question
+  answer: string;
+  rubric: RubricCriterion[];
+  comments: InlineComment[];
+  feedback: string;
+  // Set when the answer could not be graded
+  error?: string;
+}
+
+export interface GradingReport {
+  title: string;
+  type: AssignmentType;
+  studentName?: string;
+  createdAt: number;
+  // Whether the rubric came from the TA or was generated per question
+  rubricSource: 'supplied' | 'generated';
+  questions: Question[];
+  answers: GradedAnswer[];
+}
+
+export type FlashcardKind = 'concept' | 'problem';
+
+export interface Flashcard {
+  id: string;
+  assignmentId: string;
+  // Title of the assignment when the card was made, shown during review
+  assignmentTitle: string;
+  questionId?: string;
+  kind: FlashcardKind;
+  // Markdown with LaTeX math
+  front: string;
+  back: string;
+  createdAt: number;
+  // SM-2 scheduling state
+  easiness: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  type: AssignmentType;
+  createdAt: number;
+  updatedAt: number;
+  questionCount: number;
+  files: FileData[];
+  result: AssignmentResult;
 }